@@ -0,0 +1,60 @@
+// アプリ本体（HTML・JS・CSS）をキャッシュし、オフラインでも再読み込みできるようにする。
+// API の応答は api.ts が localStorage に控えるので、ここでは扱わない。
+const CACHE_NAME = 'major-diagnosis-shell-v2'
+const SHELL_URLS = ['/', '/index.html', '/vite.svg']
+// vite build が書き出すマニフェスト（vite.config.ts の build.manifest）
+const ASSET_MANIFEST_URL = '/asset-manifest.json'
+
+// 初回表示で読み込んだハッシュ付きの JS・CSS はまだ制御下にないため、マニフェストから列挙して事前にキャッシュする
+async function listBuildAssets() {
+  const response = await fetch(ASSET_MANIFEST_URL, { cache: 'no-store' })
+  if (!response.ok) throw new Error(`Failed to fetch ${ASSET_MANIFEST_URL}: ${response.status}`)
+  const manifest = await response.json()
+  const files = new Set()
+  Object.values(manifest).forEach((chunk) => {
+    ;[chunk.file, ...(chunk.css ?? []), ...(chunk.assets ?? [])].forEach((file) => files.add(`/${file}`))
+  })
+  return [...files]
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    Promise.all([caches.open(CACHE_NAME), listBuildAssets()]).then(([cache, assets]) =>
+      cache.addAll([...SHELL_URLS, ...assets]),
+    ),
+  )
+  self.skipWaiting()
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  )
+})
+
+// 常にネットワークを優先し、取得できたものをキャッシュに残す
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url)
+  if (event.request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) {
+    return
+  }
+  event.respondWith(
+    fetch(event.request)
+      .then((response) => {
+        if (response.ok) {
+          const copy = response.clone()
+          caches.open(CACHE_NAME).then((cache) => cache.put(event.request, copy))
+        }
+        return response
+      })
+      .catch(() =>
+        caches
+          .match(event.request)
+          .then((cached) => cached ?? (event.request.mode === 'navigate' ? caches.match('/index.html') : undefined))
+          .then((cached) => cached ?? Response.error()),
+      ),
+  )
+})
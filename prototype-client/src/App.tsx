@@ -1,63 +1,103 @@
 
-import { useEffect, useMemo, useRef, useState } from 'react';
-import { fetchQuestionBank, submitResponses, fetchCareerMap, fetchCategoryDetails, fetchAptitudeDetails, fetchRecommendations } from './api';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { fetchQuestionBank, submitResponses, fetchCareerMap, fetchCategoryDetails, fetchAptitudeDetails, fetchRecommendations, fetchBenchmarkNorms, fetchCategoryMap, isServedFromCache, requestDeletion, ApiError } from './api';
 import type {
   QuestionBank,
   LikertQuestion,
   ForcedChoiceQuestion,
   ScenarioQuestion,
-  ResponsePayload,
   ProfilePayload,
   AptitudeDetails,
   RecommendationItem,
+  BenchmarkNormSet,
+  LikertAnswerState,
+  ForcedAnswerState,
+  ScenarioAnswerState,
+  AnswerSet,
+  CategoryMapEntry,
+  StepId,
+  SubmissionReceipt,
+  ConsentPayload,
+  ConsentState,
 } from './types';
 import {
-  pickNextLikertQuestion,
   recomputeAxisStats,
   computeAxisAverage,
+  snapConfidence,
+  downloadFile,
+  createLocalId,
+  createRandomId,
+  runWhenIdle,
 } from './utils';
-import { Box, Button, Card, CardContent, Container, Fade, LinearProgress, Typography } from '@mui/material';
+import { APTITUDE_AXES, applyBenchmark, computeScores, selectBenchmark, toRanking } from './scoring';
+import { computeQualityFlags } from './quality';
+import { computeCategoryPosteriors, pickNextLikertQuestion } from './adaptive';
+import type { CategoryPosterior } from './adaptive';
+import { buildFieldProfiles, rankFieldMatches } from './recommend';
+import { buildCooccurrenceMatrix } from './cooccurrence';
+import { traceEvidence } from './evidence';
+import { decodeShareHash, encodeShareHash, isShareHash } from './share';
+import type { SharedResult } from './share';
+import { buildSnapshot, parseSnapshot } from './snapshot';
+import type { Snapshot } from './snapshot';
+import { summarizeSnapshot } from './compare';
+import { analyzeStability } from './stability';
+import type { CategoryStability } from './stability';
+import { rankCareers } from './careers';
+import { buildAnswerCsv, buildScoreCsv } from './csv';
+import { attachReceipt, deleteDraft, loadDraft, migrateLegacyDraft, reconcileDraft, saveDraft } from './draft';
+import type { Draft } from './draft';
+import { hashPin, listSessions, upsertSession, verifyPin } from './sessions';
+import type { SessionSummary } from './sessions';
+import {
+  OUTBOX_RETRY_INTERVAL_MS,
+  discardOutboxEntry,
+  discardQueuedSubmission,
+  discardSessionEntries,
+  enqueueSubmission,
+  flushOutbox,
+  isNetworkError,
+  isPendingEntry,
+  listOutbox,
+} from './outbox';
+import type { OutboxEntry } from './outbox';
+import type { EvidenceTarget } from './evidence';
+import {
+  submissionFingerprint,
+  buildSubmission,
+  canSubmitWithConsent,
+  createReceipt,
+  createSubmissionId,
+  createDeletionToken,
+  validateSubmission,
+} from './submission';
+import { validateReferenceData } from './validation';
+import type { ValidationIssue } from './validation';
+import { Alert, AlertTitle, Box, Button, Card, CardContent, Container, Fade, LinearProgress, Typography } from '@mui/material';
 import AccountCircle from '@mui/icons-material/AccountCircle';
+import PrivacyTip from '@mui/icons-material/PrivacyTip';
 import Psychology from '@mui/icons-material/Psychology';
 import CompareArrows from '@mui/icons-material/CompareArrows';
 import Movie from '@mui/icons-material/Movie';
 import BarChart from '@mui/icons-material/BarChart';
+import FactCheck from '@mui/icons-material/FactCheck';
 import Header from './components/Header';
 import QuestionStepper from './components/QuestionStepper';
 import ProfileStep from './components/ProfileStep';
+import ConsentStep from './components/ConsentStep';
 import LikertStep from './components/LikertStep';
 import ForcedChoiceStep from './components/ForcedChoiceStep';
 import ScenarioStep from './components/ScenarioStep';
+import ReviewStep from './components/ReviewStep';
 import ResultStep from './components/ResultStep';
+import ValidationPanel from './components/ValidationPanel';
+import ReportView from './components/ReportView';
 
-type StepId = 'profile' | 'likert' | 'forced-choice' | 'scenario' | 'result';
-
-interface LikertAnswerState {
-  value: number;
-  responseTimeMs?: number;
-}
-
-interface ForcedAnswerState {
-  optionKey: string;
-  confidence: number;
-  responseTimeMs?: number;
-}
-
-interface ScenarioAnswerState {
-  rankedOptions: string[];
-  responseTimeMs?: number;
-}
-
-interface PersistedState {
-  profile: ProfilePayload;
-  likertAnswers: Record<string, LikertAnswerState>;
-  forcedAnswers: Record<string, ForcedAnswerState>;
-  scenarioAnswers: Record<string, ScenarioAnswerState>;
-  notes: string;
-  step: StepId;
-}
+const BROKEN_DRAFT_NOTICE = {
+  title: '保存されていた下書きを読み込めませんでした',
+  messages: ['下書きの内容が壊れていたため破棄しました。お手数ですが最初から回答してください。'],
+};
 
-const STORAGE_KEY = 'major-diagnosis-beta-v1';
 const DEFAULT_PROFILE: ProfilePayload = {
   nickname: '',
   grade: '',
@@ -70,8 +110,11 @@ function App() {
   const [careerMap, setCareerMap] = useState<Record<string, string[]> | null>(null);
   const [categoryDetails, setCategoryDetails] = useState<Record<string, { description: string; fitReason: string; courses: string[] }> | null>(null);
   const [aptitudeDetails, setAptitudeDetails] = useState<AptitudeDetails | null>(null);
+  const [benchmarkNorms, setBenchmarkNorms] = useState<BenchmarkNormSet[]>([]);
+  const [categoryMap, setCategoryMap] = useState<CategoryMapEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [validationIssues, setValidationIssues] = useState<ValidationIssue[]>([]);
   const [recommendations, setRecommendations] = useState<RecommendationItem[]>([]);
   const [recommendationsLoading, setRecommendationsLoading] = useState(false);
   const [recommendationError, setRecommendationError] = useState<string | null>(null);
@@ -92,26 +135,44 @@ function App() {
 
   const [scenarioIndex, setScenarioIndex] = useState(0);
   const scenarioStartRef = useRef<number | null>(null);
+  // 「次へ」を押す前の並び替え途中の順位。下書きに保存して再開時に戻す
+  const [scenarioDrafts, setScenarioDrafts] = useState<Record<string, string[]>>({});
+
+  const [returnToReview, setReturnToReview] = useState(false);
+  const [reportOpen, setReportOpen] = useState(false);
+  const [sharedResult, setSharedResult] = useState<SharedResult | null>(null);
+  const [shareError, setShareError] = useState<string | null>(null);
+  const [importedSnapshots, setImportedSnapshots] = useState<{ label: string; snapshot: Snapshot }[]>([]);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
 
-  const [submissionState, setSubmissionState] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [submissionState, setSubmissionState] = useState<'idle' | 'saving' | 'saved' | 'queued' | 'error'>('idle');
   const [submissionError, setSubmissionError] = useState<string | null>(null);
+  const [queuedSubmissionId, setQueuedSubmissionId] = useState<string | null>(null);
+  // 診断ごとに1つ発行し、再送しても同じIDで送る
+  const [submissionId, setSubmissionId] = useState<string | null>(null);
+  const [deletionToken, setDeletionToken] = useState<string | null>(null);
+  const [receipt, setReceipt] = useState<SubmissionReceipt | null>(null);
+  const [consent, setConsent] = useState<ConsentState | null>(null);
+  const submissionIdRef = useRef<string | null>(null);
+  const [outbox, setOutbox] = useState<OutboxEntry[]>(() => listOutbox());
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+  const [usingCachedData, setUsingCachedData] = useState(false);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
+  const [draftNotice, setDraftNotice] = useState<{ title: string; messages: string[] } | null>(null);
 
-  const pendingPersisted = useRef<PersistedState | null>(null);
+  // 共有端末で利用中のセッション。選ばれるまでは下書きを保存しない
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
 
   useEffect(() => {
     try {
-      const raw = localStorage.getItem(STORAGE_KEY);
-      if (raw) {
-        const parsed = JSON.parse(raw) as PersistedState;
-        pendingPersisted.current = parsed;
-        setProfile(parsed.profile);
-        setNotes(parsed.notes);
-        setStep(parsed.step);
-      }
+      migrateLegacyDraft();
     } catch (err) {
-      console.error('Failed to load draft', err);
+      console.error('Failed to migrate draft', err);
+      setDraftNotice(BROKEN_DRAFT_NOTICE);
     }
+    setSessions(listSessions());
   }, []);
 
   useEffect(() => {
@@ -119,24 +180,40 @@ function App() {
     ;(async () => {
       try {
         setLoading(true);
-        const [bank, careers, details, aptitudes] = await Promise.all([
+        const [bank, careers, details, aptitudes, norms, categoryEntries] = await Promise.all([
           fetchQuestionBank(),
           fetchCareerMap(),
           fetchCategoryDetails(),
           fetchAptitudeDetails(),
+          fetchBenchmarkNorms().catch((err) => {
+            console.warn('Failed to load benchmark norms', err);
+            return [];
+          }),
+          fetchCategoryMap().catch((err) => {
+            console.warn('Failed to load category map', err);
+            return [];
+          }),
         ]);
         if (!active) return;
+        const issues = validateReferenceData({
+          bank,
+          careerMap: careers,
+          categoryDetails: details,
+          aptitudeDetails: aptitudes,
+          categoryMap: categoryEntries,
+        });
+        issues
+          .filter((issue) => issue.severity === 'warning')
+          .forEach((issue) => console.warn(`[validation] ${issue.source}: ${issue.message}`));
+        setValidationIssues(issues);
+        if (issues.some((issue) => issue.severity === 'error')) return;
         setQuestionBank(bank);
         setCareerMap(careers);
         setCategoryDetails(details);
         setAptitudeDetails(aptitudes);
-        if (pendingPersisted.current) {
-          const persisted = pendingPersisted.current;
-          setLikertAnswers(persisted.likertAnswers);
-          setForcedAnswers(persisted.forcedAnswers);
-          setScenarioAnswers(persisted.scenarioAnswers);
-          pendingPersisted.current = null;
-        }
+        setBenchmarkNorms(norms);
+        setCategoryMap(categoryEntries);
+        setUsingCachedData(isServedFromCache());
       } catch (err) {
         console.error(err);
         setError(err instanceof Error ? err.message : 'データの読み込みに失敗しました');
@@ -150,6 +227,125 @@ function App() {
   }, []);
 
 
+  useEffect(() => {
+    submissionIdRef.current = submissionId;
+  }, [submissionId]);
+
+  const retryOutbox = useCallback(async () => {
+    setSyncing(true);
+    try {
+      const remaining = await flushOutbox(submitResponses, (entry, response) => {
+        const sentId = entry.payload.submissionId;
+        if (!sentId || !entry.answersFingerprint) return;
+        const sentReceipt = createReceipt(sentId, response, entry.answersFingerprint);
+        if (sentId === submissionIdRef.current) {
+          setReceipt(sentReceipt);
+        } else if (entry.sessionId) {
+          attachReceipt(entry.sessionId, sentReceipt);
+        }
+      });
+      setOutbox(remaining);
+    } finally {
+      setSyncing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      void retryOutbox();
+    };
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [retryOutbox]);
+
+  const pendingOutbox = useMemo(() => outbox.filter(isPendingEntry), [outbox]);
+  // 再送をやめた送信は、送信したセッションの利用者にだけ見せる
+  const failedOutbox = useMemo(
+    () => outbox.filter((entry) => !isPendingEntry(entry) && sessionId !== null && entry.sessionId === sessionId),
+    [outbox, sessionId],
+  );
+
+  // 送信待ちがある間は定期的に再送を試みる（起動直後にも1回試す）
+  const hasPendingSubmissions = pendingOutbox.length > 0;
+  useEffect(() => {
+    if (!hasPendingSubmissions || !online) return;
+    void retryOutbox();
+    const timer = window.setInterval(() => void retryOutbox(), OUTBOX_RETRY_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [hasPendingSubmissions, online, retryOutbox]);
+
+  useEffect(() => {
+    if (!queuedSubmissionId) return;
+    const entry = outbox.find((candidate) => candidate.id === queuedSubmissionId);
+    if (!entry) {
+      setQueuedSubmissionId(null);
+      setSubmissionState('saved');
+    } else if (!isPendingEntry(entry)) {
+      setQueuedSubmissionId(null);
+      setSubmissionState('error');
+      setSubmissionError(entry.lastError ?? '送信に失敗しました');
+    }
+  }, [outbox, queuedSubmissionId]);
+
+  const discardFailedSubmission = (id: string) => {
+    if (!failedOutbox.some((entry) => entry.id === id)) return;
+    discardOutboxEntry(id);
+    setOutbox(listOutbox());
+  };
+
+  // 下書きと、そのセッションの送信待ちをまとめて消す
+  const removeSessionData = (id: string) => {
+    deleteDraft(id);
+    discardSessionEntries(id);
+    setOutbox(listOutbox());
+  };
+
+  useEffect(() => {
+    const loadSharedResult = () => {
+      if (!isShareHash(window.location.hash)) {
+        setSharedResult(null);
+        setShareError(null);
+        return;
+      }
+      decodeShareHash(window.location.hash)
+        .then((result) => {
+          setSharedResult(result);
+          setShareError(null);
+        })
+        .catch((err) => {
+          console.error('Failed to decode share link', err);
+          setSharedResult(null);
+          setShareError(err instanceof Error ? err.message : '共有リンクを読み込めませんでした');
+        });
+    };
+    loadSharedResult();
+    window.addEventListener('hashchange', loadSharedResult);
+    return () => window.removeEventListener('hashchange', loadSharedResult);
+  }, []);
+
+  // 結果画面に表示する回答。共有リンクを開いている間はリンクの回答を使う
+  const resultAnswers = useMemo<AnswerSet>(() => {
+    if (!sharedResult || !questionBank) {
+      return { likert: likertAnswers, forced: forcedAnswers, scenario: scenarioAnswers };
+    }
+    const levels = questionBank.forcedChoiceMetadata.confidenceLevels;
+    return {
+      ...sharedResult.answers,
+      forced: Object.fromEntries(
+        Object.entries(sharedResult.answers.forced).map(([id, answer]) => [
+          id,
+          answer.optionKey === 'SKIP' ? answer : { ...answer, confidence: snapConfidence(answer.confidence, levels) },
+        ]),
+      ),
+    };
+  }, [sharedResult, questionBank, likertAnswers, forcedAnswers, scenarioAnswers]);
+
   const likertValueMap = useMemo(() => {
     const map: Record<string, { value: number }> = {};
     Object.entries(likertAnswers).forEach(([id, answer]) => {
@@ -160,7 +356,12 @@ function App() {
 
   const likertStats = useMemo(() => {
     if (!questionBank) return new Map();
-    return recomputeAxisStats(questionBank.likert, likertValueMap);
+    return recomputeAxisStats(questionBank.likert, resultAnswers.likert);
+  }, [questionBank, resultAnswers]);
+
+  const likertPosteriors = useMemo(() => {
+    if (!questionBank) return new Map<string, CategoryPosterior>();
+    return computeCategoryPosteriors(questionBank.likert, likertValueMap);
   }, [questionBank, likertValueMap]);
 
   const requiredLikertCount = useMemo(
@@ -177,6 +378,12 @@ function App() {
   const likertComplete =
     questionBank != null && requiredLikertAnswered >= requiredLikertCount;
 
+  const forcedComplete =
+    questionBank != null && questionBank.forcedChoice.every((q) => !q.required || forcedAnswers[q.id]);
+  const scenarioComplete =
+    questionBank != null && questionBank.scenario.every((q) => !q.required || scenarioAnswers[q.id]);
+  const answersComplete = likertComplete && forcedComplete && scenarioComplete;
+
   useEffect(() => {
     if (!questionBank || step !== 'likert') {
       return;
@@ -186,7 +393,7 @@ function App() {
       const next = pickNextLikertQuestion(
         questionBank.likert,
         likertValueMap,
-        likertStats,
+        likertPosteriors,
         needRequired,
       );
       if (next) {
@@ -199,7 +406,7 @@ function App() {
   }, [
     questionBank,
     currentLikertId,
-    likertStats,
+    likertPosteriors,
     likertValueMap,
     step,
     requiredLikertAnswered,
@@ -208,17 +415,53 @@ function App() {
   ]);
 
   useEffect(() => {
-    const payload: PersistedState = {
+    if (!sessionId) return;
+    saveDraft(sessionId, {
+      questionBankVersion: questionBank?.version,
       profile,
       likertAnswers,
       forcedAnswers,
       scenarioAnswers,
       notes,
       step,
-    };
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(payload));
+      position: { likertId: currentLikertId, forcedIndex, scenarioIndex, returnToReview },
+      scenarioDrafts,
+      consent,
+      submissionId: submissionId ?? undefined,
+      deletionToken: deletionToken ?? undefined,
+      receipt: receipt ?? undefined,
+    });
     setLastSaved(new Date());
-  }, [profile, likertAnswers, forcedAnswers, scenarioAnswers, notes, step]);
+  }, [
+    sessionId,
+    questionBank,
+    profile,
+    likertAnswers,
+    forcedAnswers,
+    scenarioAnswers,
+    notes,
+    step,
+    currentLikertId,
+    forcedIndex,
+    scenarioIndex,
+    returnToReview,
+    scenarioDrafts,
+    consent,
+    submissionId,
+    deletionToken,
+    receipt,
+  ]);
+
+  const fingerprint = useMemo(
+    () =>
+      submissionFingerprint({
+        answers: { likert: likertAnswers, forced: forcedAnswers, scenario: scenarioAnswers },
+        profile,
+        notes,
+        consent,
+      }),
+    [likertAnswers, forcedAnswers, scenarioAnswers, profile, notes, consent],
+  );
 
   const currentLikertQuestion = useMemo<LikertQuestion | null>(() => {
     if (!questionBank || !currentLikertId) return null;
@@ -232,119 +475,39 @@ function App() {
 
   const axisAverage = useMemo(() => computeAxisAverage(likertStats), [likertStats]);
 
-  const categoryScore = useMemo(() => {
-    const scores = new Map<string, number>();
-
-    const addScore = (key: string, value: number) => {
-      scores.set(key, (scores.get(key) ?? 0) + value);
-    };
-
-    if (questionBank) {
-      Object.entries(likertAnswers).forEach(([id, answer]) => {
-        const question = questionBank.likert.find((q) => q.id === id);
-        if (!question) return;
-        const normalized = question.polarity === 'reverse' ? 8 - answer.value : answer.value;
-        addScore(question.primaryCategory, normalized);
-        question.relatedCategories?.forEach((rel) => {
-          addScore(rel.category, normalized * rel.weight);
-        });
-      });
-
-      Object.entries(forcedAnswers).forEach(([id, answer]) => {
-        if (answer.optionKey === 'SKIP') return;
-        const [questionId] = id.split('|');
-        const question = questionBank.forcedChoice.find((q) => q.id === questionId);
-        if (!question) return;
-        const option = question.options.find((o) => o.key === answer.optionKey);
-        if (!option) return;
-        addScore(option.primary.category, option.primary.score * option.primary.weight * answer.confidence);
-        option.secondary?.forEach((sec) => {
-          addScore(sec.category, sec.score * sec.weight * answer.confidence);
-        });
-      });
-
-      Object.entries(scenarioAnswers).forEach(([id, answer]) => {
-        const question = questionBank.scenario.find((q) => q.id === id);
-        if (!question) return;
-        const weights = [1.0, 0.5, 0.25];
-        answer.rankedOptions.forEach((optionKey, index) => {
-          const option = question.options.find((o) => o.key === optionKey);
-          if (!option) return;
-          const rankWeight = weights[index];
-          addScore(option.primary.category, option.primary.score * option.primary.weight * rankWeight);
-          option.secondary?.forEach((sec) => {
-            addScore(sec.category, sec.score * sec.weight * rankWeight);
-          });
-        });
-      });
-    }
-
-    return Array.from(scores.entries())
-      .sort((a, b) => b[1] - a[1]);
-  }, [questionBank, likertAnswers, forcedAnswers, scenarioAnswers]);
+  const scoreResult = useMemo(() => {
+    if (!questionBank) return null;
+    const result = computeScores(questionBank, resultAnswers);
+    return applyBenchmark(result, selectBenchmark(benchmarkNorms, questionBank.version));
+  }, [questionBank, resultAnswers, benchmarkNorms]);
 
-  const aptitudeScores = useMemo(() => {
-    const scores = new Map<string, number>();
-    const addScore = (key: string, value: number) => {
-      scores.set(key, (scores.get(key) ?? 0) + value);
-    };
+  const qualityFlags = useMemo(() => {
+    if (!questionBank) return null;
+    return computeQualityFlags(questionBank, resultAnswers);
+  }, [questionBank, resultAnswers]);
 
-    if (questionBank) {
-      Object.entries(likertAnswers).forEach(([id, answer]) => {
-        const question = questionBank.likert.find((q) => q.id === id);
-        if (!question) return;
-        if (question.axis === 'activity' || question.axis === 'learning_style') {
-          const normalized = question.polarity === 'reverse' ? 8 - answer.value : answer.value;
-          addScore(question.primaryCategory, normalized);
-        }
-        question.relatedCategories?.forEach((rel) => {
-          if (rel.axis === 'activity' || rel.axis === 'learning_style') {
-            const normalized = question.polarity === 'reverse' ? 8 - answer.value : answer.value;
-            addScore(rel.category, normalized * rel.weight);
-          }
-        });
-      });
+  const categoryScore = useMemo(
+    () => (scoreResult ? toRanking(scoreResult.categories) : []),
+    [scoreResult],
+  );
 
-      Object.entries(forcedAnswers).forEach(([id, answer]) => {
-        if (answer.optionKey === 'SKIP') return;
-        const [questionId] = id.split('|');
-        const question = questionBank.forcedChoice.find((q) => q.id === questionId);
-        if (!question) return;
-        const option = question.options.find((o) => o.key === answer.optionKey);
-        if (!option) return;
-        if (option.primary.axis === 'activity' || option.primary.axis === 'learning_style') {
-          addScore(option.primary.category, option.primary.score * option.primary.weight * answer.confidence);
-        }
-        option.secondary?.forEach((sec) => {
-          if (sec.axis === 'activity' || sec.axis === 'learning_style') {
-            addScore(sec.category, sec.score * sec.weight * answer.confidence);
-          }
-        });
-      });
+  const aptitudeScores = useMemo(
+    () => (scoreResult ? toRanking(scoreResult.categories, APTITUDE_AXES) : []),
+    [scoreResult],
+  );
 
-      Object.entries(scenarioAnswers).forEach(([id, answer]) => {
-        const question = questionBank.scenario.find((q) => q.id === id);
-        if (!question) return;
-        const weights = [1.0, 0.5, 0.25];
-        answer.rankedOptions.forEach((optionKey, index) => {
-          const option = question.options.find((o) => o.key === optionKey);
-          if (!option) return;
-          const rankWeight = weights[index];
-          if (option.primary.axis === 'activity' || option.primary.axis === 'learning_style') {
-            addScore(option.primary.category, option.primary.score * option.primary.weight * rankWeight);
-          }
-          option.secondary?.forEach((sec) => {
-            if (sec.axis === 'activity' || sec.axis === 'learning_style') {
-              addScore(sec.category, sec.score * sec.weight * rankWeight);
-            }
-          });
-        });
-      });
-    }
+  const fieldProfiles = useMemo(() => {
+    if (!questionBank) return [];
+    const fields = Array.from(
+      new Set([...Object.keys(categoryDetails ?? {}), ...Object.keys(careerMap ?? {})]),
+    );
+    return buildFieldProfiles(questionBank, fields, aptitudeDetails);
+  }, [questionBank, categoryDetails, careerMap, aptitudeDetails]);
 
-    return Array.from(scores.entries())
-      .sort((a, b) => b[1] - a[1]);
-  }, [questionBank, likertAnswers, forcedAnswers, scenarioAnswers]);
+  const fieldMatches = useMemo(
+    () => (scoreResult ? rankFieldMatches(scoreResult.categories, fieldProfiles) : []),
+    [scoreResult, fieldProfiles],
+  );
 
   const topAptitudeKeys = useMemo(
     () => aptitudeScores.slice(0, 3).map(([name]) => name),
@@ -352,7 +515,7 @@ function App() {
   );
 
   useEffect(() => {
-    if (step !== 'result') {
+    if (step !== 'result' && !reportOpen && !sharedResult) {
       setRecommendations([]);
       setRecommendationError(null);
       setRecommendationsLoading(false);
@@ -373,12 +536,17 @@ function App() {
         if (!active) return;
         setRecommendations(items);
         setRecommendationError(null);
+        if (isServedFromCache()) setUsingCachedData(true);
       })
       .catch((err) => {
         if (!active) return;
         setRecommendations([]);
         setRecommendationError(
-          err instanceof Error ? err.message : '進路候補の取得に失敗しました。',
+          isNetworkError(err)
+            ? '通信できないため進路候補を表示できません。接続が戻ると表示できます。'
+            : err instanceof Error
+              ? err.message
+              : '進路候補の取得に失敗しました。',
         );
       })
       .finally(() => {
@@ -389,120 +557,66 @@ function App() {
     return () => {
       active = false;
     };
-  }, [step, topAptitudeKeys]);
-
-  const tagScores = useMemo(() => {
-    const scores = new Map<string, { score: number; questions: string[] }>();
-
-    const addScore = (key: string, value: number, questionId: string) => {
-      if (!scores.has(key)) {
-        scores.set(key, { score: 0, questions: [] });
-      }
-      const entry = scores.get(key)!;
-      entry.score += value;
-      if (!entry.questions.includes(questionId)) {
-        entry.questions.push(questionId);
-      }
-    };
-
-    if (questionBank) {
-      Object.entries(likertAnswers).forEach(([id, answer]) => {
-        const question = questionBank.likert.find((q) => q.id === id);
-        if (!question) return;
-        const normalized = question.polarity === 'reverse' ? 8 - answer.value : answer.value;
-        question.tags?.forEach(tag => addScore(tag.name, normalized * tag.weight, id));
-      });
-
-      Object.entries(forcedAnswers).forEach(([id, answer]) => {
-        if (answer.optionKey === 'SKIP') return;
-        const [questionId] = id.split('|');
-        const question = questionBank.forcedChoice.find((q) => q.id === questionId);
-        if (!question) return;
-        const option = question.options.find((o) => o.key === answer.optionKey);
-        if (!option) return;
-        option.tags?.forEach(tag => addScore(tag.name, option.primary.score * option.primary.weight * answer.confidence * tag.weight, questionId));
-      });
-
-      Object.entries(scenarioAnswers).forEach(([id, answer]) => {
-        const question = questionBank.scenario.find((q) => q.id === id);
-        if (!question) return;
-        const weights = [1.0, 0.5, 0.25];
-        answer.rankedOptions.forEach((optionKey, index) => {
-          const option = question.options.find((o) => o.key === optionKey);
-          if (!option) return;
-          const rankWeight = weights[index];
-          option.tags?.forEach(tag => addScore(tag.name, option.primary.score * option.primary.weight * rankWeight * tag.weight, id));
-        });
-      });
-    }
+  }, [step, reportOpen, sharedResult, topAptitudeKeys]);
 
-    return Array.from(scores.entries())
-      .sort((a, b) => b[1].score - a[1].score)
-      .slice(0, 10);
-  }, [questionBank, likertAnswers, forcedAnswers, scenarioAnswers]);
+  const careerScores = useMemo(
+    () => (careerMap ? rankCareers(categoryScore, careerMap) : []),
+    [categoryScore, careerMap],
+  );
 
-  const cooccurrenceData = useMemo(() => {
-    if (!questionBank || categoryScore.length === 0) {
-      return [];
+  // 安定性分析は再採点を繰り返して重いので、描画のあとに空き時間で計算する。null は計算中
+  const [stability, setStability] = useState<CategoryStability[] | null>([]);
+  const stabilityBenchmark = scoreResult?.benchmark;
+  useEffect(() => {
+    if (!questionBank || (step !== 'result' && !sharedResult)) {
+      setStability([]);
+      return;
     }
+    setStability(null);
+    return runWhenIdle(() => setStability(analyzeStability(questionBank, resultAnswers, stabilityBenchmark)));
+  }, [questionBank, step, sharedResult, resultAnswers, stabilityBenchmark]);
 
-    const topCategories = categoryScore.map(([category]) => category);
-    const matrix: Record<string, Record<string, number>> = {};
-
-    const increment = (cat1: string, cat2: string) => {
-      if (topCategories.includes(cat1) && topCategories.includes(cat2) && cat1 !== cat2) {
-        const key1 = cat1 < cat2 ? cat1 : cat2;
-        const key2 = cat1 < cat2 ? cat2 : cat1;
-        if (!matrix[key1]) {
-          matrix[key1] = {};
-        }
-        if (!matrix[key1][key2]) {
-          matrix[key1][key2] = 0;
-        }
-        matrix[key1][key2]++;
-      }
-    };
-
-    questionBank.likert.forEach((q) => {
-      const categories = [q.primaryCategory, ...(q.relatedCategories?.map(rc => rc.category) ?? [])];
-      for (let i = 0; i < categories.length; i++) {
-        for (let j = i + 1; j < categories.length; j++) {
-          increment(categories[i], categories[j]);
-        }
-      }
-    });
+  const tagScores = useMemo(() => scoreResult?.tags.slice(0, 10) ?? [], [scoreResult]);
 
-    questionBank.forcedChoice.forEach((q) => {
-      q.options.forEach(o => {
-        const categories = [o.primary.category, ...(o.secondary?.map(s => s.category) ?? [])];
-        for (let i = 0; i < categories.length; i++) {
-          for (let j = i + 1; j < categories.length; j++) {
-            increment(categories[i], categories[j]);
-          }
-        }
-      });
-    });
+  const cooccurrenceMatrix = useMemo(
+    () => buildCooccurrenceMatrix(scoreResult?.categories ?? [], scoreResult?.contributions ?? []),
+    [scoreResult],
+  );
 
-    questionBank.scenario.forEach((q) => {
-      q.options.forEach(o => {
-        const categories = [o.primary.category, ...(o.secondary?.map(s => s.category) ?? [])];
-        for (let i = 0; i < categories.length; i++) {
-          for (let j = i + 1; j < categories.length; j++) {
-            increment(categories[i], categories[j]);
-          }
-        }
-      });
-    });
+  const snapshotSummaries = useMemo(
+    () =>
+      questionBank
+        ? importedSnapshots.map(({ label, snapshot }) =>
+            summarizeSnapshot(questionBank, benchmarkNorms, snapshot, label),
+          )
+        : [],
+    [questionBank, benchmarkNorms, importedSnapshots],
+  );
 
-    const data: { x: string; y: string; z: number }[] = [];
-    for (const cat1 in matrix) {
-      for (const cat2 in matrix[cat1]) {
-        data.push({ x: cat1, y: cat2, z: matrix[cat1][cat2] });
+  const explainResult = useCallback(
+    (target: EvidenceTarget) => {
+      if (!questionBank || !scoreResult) return null;
+      let weights: Record<string, number> = { [target.name]: 1 };
+      if (target.kind === 'field' || target.kind === 'career') {
+        const fields =
+          target.kind === 'field'
+            ? [target.name]
+            : Object.entries(careerMap ?? {})
+                .filter(([, careers]) => careers.includes(target.name))
+                .map(([field]) => field);
+        weights = {};
+        fieldProfiles
+          .filter((profile) => fields.includes(profile.field))
+          .forEach((profile) => {
+            Object.entries(profile.vector).forEach(([category, weight]) => {
+              weights[category] = (weights[category] ?? 0) + weight;
+            });
+          });
       }
-    }
-
-    return data;
-  }, [questionBank, categoryScore]);
+      return traceEvidence(questionBank, resultAnswers, scoreResult.contributions, weights);
+    },
+    [questionBank, scoreResult, careerMap, fieldProfiles, resultAnswers],
+  );
 
   const handleProfileChange = <K extends keyof ProfilePayload>(key: K, value: ProfilePayload[K]) => {
     setProfile((prev) => ({ ...prev, [key]: value }));
@@ -518,11 +632,19 @@ function App() {
     };
     setLikertAnswers(nextAnswers);
 
+    if (returnToReview) {
+      setReturnToReview(false);
+      setCurrentLikertId(null);
+      likertStartRef.current = null;
+      setStep('review');
+      return;
+    }
+
     const valueMap: Record<string, { value: number }> = {};
     Object.entries(nextAnswers).forEach(([id, answer]) => {
       valueMap[id] = { value: answer.value };
     });
-    const nextStats = recomputeAxisStats(questionBank.likert, valueMap);
+    const nextPosteriors = computeCategoryPosteriors(questionBank.likert, valueMap);
     const requiredAnswered =
       Object.entries(nextAnswers).filter(([id]) => {
         const q = questionBank.likert.find((item) => item.id === id);
@@ -532,7 +654,7 @@ function App() {
     const nextQuestion = pickNextLikertQuestion(
       questionBank.likert,
       valueMap,
-      nextStats,
+      nextPosteriors,
       needRequired,
     );
 
@@ -548,25 +670,28 @@ function App() {
   };
 
   const handleForcedAnswer = (question: ForcedChoiceQuestion, optionKey: string, confidence: number) => {
-    const key = `${question.id}|${optionKey}`;
     const timeMs = forcedStartRef.current ? performance.now() - forcedStartRef.current : undefined;
     setForcedAnswers((prev) => ({
       ...prev,
-      [key]: { optionKey, confidence, responseTimeMs: timeMs },
+      [question.id]: { optionKey, confidence, responseTimeMs: timeMs },
     }));
   };
 
   const handleForcedSkip = (question: ForcedChoiceQuestion) => {
-    const key = `${question.id}|SKIP`;
     const timeMs = forcedStartRef.current ? performance.now() - forcedStartRef.current : undefined;
     setForcedAnswers((prev) => ({
       ...prev,
-      [key]: { optionKey: 'SKIP', confidence: 0, responseTimeMs: timeMs },
+      [question.id]: { optionKey: 'SKIP', confidence: 0, responseTimeMs: timeMs },
     }));
     proceedForced();
   }
 
   const proceedForced = () => {
+    if (returnToReview) {
+      setReturnToReview(false);
+      setStep('review');
+      return;
+    }
     const nextIndex = forcedIndex + 1;
     if (nextIndex >= forcedOrder.length) {
       setStep('scenario');
@@ -583,19 +708,82 @@ function App() {
       ...prev,
       [question.id]: { rankedOptions, responseTimeMs: timeMs },
     }));
+    setScenarioDrafts((prev) =>
+      Object.fromEntries(Object.entries(prev).filter(([id]) => id !== question.id)),
+    );
+  };
+
+  const handleScenarioRankingChange = (question: ScenarioQuestion, rankedOptions: string[]) => {
+    setScenarioDrafts((prev) => ({ ...prev, [question.id]: rankedOptions }));
   };
 
   const proceedScenario = () => {
+    if (returnToReview) {
+      setReturnToReview(false);
+      setStep('review');
+      return;
+    }
     const nextIndex = scenarioIndex + 1;
     if (nextIndex >= scenarioOrder.length) {
-      setStep('result');
+      setStep('review');
     } else {
       setScenarioIndex(nextIndex);
       scenarioStartRef.current = performance.now();
     }
   };
 
-  const resetAll = () => {
+  const openLikert = (questionId: string | null) => {
+    setCurrentLikertId(questionId);
+    likertStartRef.current = performance.now();
+    setStep('likert');
+  };
+
+  const openForced = (index: number) => {
+    setForcedIndex(index);
+    forcedStartRef.current = performance.now();
+    setStep('forced-choice');
+  };
+
+  const openScenario = (index: number) => {
+    setScenarioIndex(index);
+    scenarioStartRef.current = performance.now();
+    setStep('scenario');
+  };
+
+  const backFromLikert = () => {
+    const answeredIds = Object.keys(likertAnswers);
+    const position = currentLikertId ? answeredIds.indexOf(currentLikertId) : -1;
+    const previousId = position === -1 ? answeredIds[answeredIds.length - 1] : answeredIds[position - 1];
+    if (previousId) {
+      openLikert(previousId);
+    } else {
+      setStep('consent');
+    }
+  };
+
+  const backFromForced = () => {
+    if (forcedIndex > 0) {
+      openForced(forcedIndex - 1);
+    } else {
+      const answeredIds = Object.keys(likertAnswers);
+      openLikert(answeredIds[answeredIds.length - 1] ?? null);
+    }
+  };
+
+  const backFromScenario = () => {
+    if (scenarioIndex > 0) {
+      openScenario(scenarioIndex - 1);
+    } else {
+      openForced(Math.max(forcedOrder.length - 1, 0));
+    }
+  };
+
+  const editFromReview = (open: () => void) => {
+    setReturnToReview(true);
+    open();
+  };
+
+  const clearSessionState = () => {
     setProfile(DEFAULT_PROFILE);
     setNotes('');
     setLikertAnswers({});
@@ -605,62 +793,254 @@ function App() {
     setCurrentLikertId(null);
     setForcedIndex(0);
     setScenarioIndex(0);
+    setScenarioDrafts({});
+    setReturnToReview(false);
+    setReportOpen(false);
     likertStartRef.current = null;
     forcedStartRef.current = null;
     scenarioStartRef.current = null;
-    localStorage.removeItem(STORAGE_KEY);
+    setDraftNotice(null);
+    setSessionId(null);
+    setSubmissionId(null);
+    setDeletionToken(null);
+    setReceipt(null);
+    setConsent(null);
+    setSubmissionState('idle');
+    setSubmissionError(null);
+    setQueuedSubmissionId(null);
+  };
+
+  const resetAll = () => {
+    if (sessionId) removeSessionData(sessionId);
+    clearSessionState();
+    setSessions(listSessions());
+  };
+
+  // 次の人に端末を渡す。下書きは残したままプロフィール画面の一覧に戻る
+  const switchSession = () => {
+    clearSessionState();
+    setSessions(listSessions());
+  };
+
+  const resumeSession = async (id: string, pin: string) => {
+    const session = sessions.find((candidate) => candidate.id === id);
+    if (!session || !questionBank) return false;
+    if (!(await verifyPin(session, pin))) return false;
+    let draft: Draft | null = null;
+    try {
+      draft = loadDraft(id);
+    } catch (err) {
+      console.error('Failed to load draft', err);
+    }
+    if (!draft) {
+      removeSessionData(id);
+      setSessions(listSessions());
+      setDraftNotice(BROKEN_DRAFT_NOTICE);
+      return true;
+    }
+    const { answers, position, scenarioDrafts: restoredDrafts, adjustments } = reconcileDraft(draft, questionBank);
+    setProfile(draft.profile);
+    setNotes(draft.notes);
+    setLikertAnswers(answers.likert);
+    setForcedAnswers(answers.forced);
+    setScenarioAnswers(answers.scenario);
+    setCurrentLikertId(position.likertId);
+    setForcedIndex(position.forcedIndex);
+    setScenarioIndex(position.scenarioIndex);
+    setReturnToReview(position.returnToReview);
+    setScenarioDrafts(restoredDrafts);
+    // 再開した設問の回答時間は再開した時点から測る
+    const resumedAt = performance.now();
+    likertStartRef.current = resumedAt;
+    forcedStartRef.current = resumedAt;
+    scenarioStartRef.current = resumedAt;
+    setStep(draft.step);
+    setConsent(draft.consent);
+    setSubmissionId(draft.submissionId ?? null);
+    setDeletionToken(draft.deletionToken ?? null);
+    setReceipt(draft.receipt ?? null);
+    setSessionId(id);
+    setDraftNotice(
+      adjustments.length > 0 ? { title: '前回の下書きを現在の設問に合わせて調整しました', messages: adjustments } : null,
+    );
+    return true;
+  };
+
+  const deleteSession = async (id: string, pin: string) => {
+    const session = sessions.find((candidate) => candidate.id === id);
+    if (!session) return false;
+    if (!(await verifyPin(session, pin))) return false;
+    removeSessionData(id);
+    setSessions(listSessions());
+    return true;
+  };
+
+  const startSession = async (pin: string) => {
+    const id = sessionId ?? createLocalId();
+    if (pin) {
+      upsertSession(id, { pinHash: await hashPin(id, pin) });
+      setSessions(listSessions());
+    }
+    setSessionId(id);
+    setStep('consent');
+  };
+
+  // 同意の内容を記録する。仮名IDは一度作ったら同意を変えても同じものを使う
+  const confirmConsent = (choice: ConsentPayload) => {
+    setConsent((prev) => ({
+      ...choice,
+      respondentId: prev?.respondentId ?? createRandomId(),
+      decidedAt: new Date().toISOString(),
+    }));
+    if (!choice.contact) {
+      setProfile((prev) => ({ ...prev, email: '' }));
+    }
+    // 回答を終えてから同意を変更した場合は結果画面に戻る
+    if (answersComplete) {
+      setStep('result');
+      return;
+    }
+    setStep('likert');
+    likertStartRef.current = performance.now();
+  };
+
+  const requestSubmissionDeletion = async (id: string, token: string) => {
+    const discarded = discardQueuedSubmission(id);
+    setOutbox(listOutbox());
+    let found = discarded;
+    try {
+      found = (await requestDeletion(id, token)) || discarded;
+    } catch (err) {
+      if (!discarded) {
+        throw new Error(
+          isNetworkError(err)
+            ? '通信できないため削除を依頼できませんでした。接続を確認してもう一度お試しください。'
+            : err instanceof ApiError && err.status === 403
+              ? '削除用コードが受付番号と一致しません'
+              : '削除を依頼できませんでした。時間をおいてもう一度お試しください。',
+        );
+      }
+    }
+    if (!found) {
+      throw new Error('この受付番号の送信データは見つかりませんでした');
+    }
+    if (id === submissionId) {
+      setSubmissionId(null);
+      setDeletionToken(null);
+      setReceipt(null);
+      setQueuedSubmissionId(null);
+      setSubmissionState('idle');
+    }
   };
 
   const exportSnapshot = () => {
-    const payload = {
+    if (!questionBank) return;
+    const payload = buildSnapshot({
+      bank: questionBank,
       profile,
-      likertAnswers,
-      forcedAnswers,
-      scenarioAnswers,
+      answers: { likert: likertAnswers, forced: forcedAnswers, scenario: scenarioAnswers },
       axisAverage,
       notes,
-      generatedAt: new Date().toISOString(),
-    };
-    const blob = new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const anchor = document.createElement('a');
-    anchor.href = url;
-    anchor.download = `diagnosis-result-${Date.now()}.json`;
-    anchor.click();
-    URL.revokeObjectURL(url);
+    });
+    downloadFile(JSON.stringify(payload, null, 2), `diagnosis-result-${Date.now()}.json`, 'application/json');
   };
 
-  const handleSubmit = async () => {
+  const exportCsv = (kind: 'answers' | 'scores') => {
+    if (!questionBank) return;
+    const content =
+      kind === 'answers'
+        ? buildAnswerCsv(questionBank, { likert: likertAnswers, forced: forcedAnswers, scenario: scenarioAnswers })
+        : scoreResult
+          ? buildScoreCsv(scoreResult)
+          : null;
+    if (!content) return;
+    downloadFile(content, `diagnosis-${kind}-${Date.now()}.csv`, 'text/csv;charset=utf-8');
+  };
+
+  const importSnapshots = async (files: File[]) => {
+    const results = await Promise.all(
+      files.map(async (file) => {
+        try {
+          const text = await file.text();
+          let raw: unknown;
+          try {
+            raw = JSON.parse(text);
+          } catch {
+            throw new Error('JSONとして読み込めません');
+          }
+          return { label: file.name, snapshot: parseSnapshot(raw) };
+        } catch (err) {
+          return { label: file.name, error: err instanceof Error ? err.message : String(err) };
+        }
+      }),
+    );
+    const loaded = results.flatMap(({ label, snapshot }) => (snapshot ? [{ label, snapshot }] : []));
+    setImportErrors(results.flatMap(({ label, error }) => (error ? [`${label}: ${error}`] : [])));
+    setImportedSnapshots((prev) => [
+      ...prev.filter((item) => !loaded.some((next) => next.label === item.label)),
+      ...loaded,
+    ]);
+  };
+
+  const copyShareLink = async () => {
     if (!questionBank) return;
+    const hash = await encodeShareHash(questionBank, {
+      likert: likertAnswers,
+      forced: forcedAnswers,
+      scenario: scenarioAnswers,
+    });
+    await navigator.clipboard.writeText(`${window.location.origin}${window.location.pathname}${hash}`);
+  };
+
+  const closeSharedResult = () => {
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    setSharedResult(null);
+    setShareError(null);
+  };
+
+  const handleSubmit = async () => {
+    if (!questionBank || !canSubmitWithConsent(consent)) return;
     setSubmissionState('saving');
     setSubmissionError(null);
+    // 削除用コードを持たない受付番号（コード導入前の送信）は使わず、新しい受付として送る
+    const reuse = submissionId !== null && deletionToken !== null;
+    const id = reuse ? submissionId : createSubmissionId();
+    const token = reuse ? deletionToken : createDeletionToken();
+    setSubmissionId(id);
+    setDeletionToken(token);
     try {
-      const payload: ResponsePayload = {
+      const payload = buildSubmission({
+        bank: questionBank,
         profile,
-        likert: Object.entries(likertAnswers).map(([id, answer]) => ({
-          id,
-          value: answer.value,
-          responseTimeMs: answer.responseTimeMs,
-        })),
-        forcedChoice: Object.entries(forcedAnswers).map(([id, answer]) => {
-          const [questionId] = id.split('|');
-          return {
-            id: questionId,
-            optionKey: answer.optionKey,
-            confidence: answer.confidence,
-            responseTimeMs: answer.responseTimeMs,
-          };
-        }),
-        scenario: Object.entries(scenarioAnswers).map(([id, answer]) => ({
-          id,
-          optionKey: answer.optionKey,
-          responseTimeMs: answer.responseTimeMs,
-        })),
+        answers: { likert: likertAnswers, forced: forcedAnswers, scenario: scenarioAnswers },
         axisAverage,
+        qualityFlags,
+        scoreResult,
         notes,
-      };
+        submissionId: id,
+        deletionToken: token,
+        consent,
+      });
+      const problems = validateSubmission(payload, questionBank);
+      if (problems.length > 0) {
+        console.error('Invalid submission', problems);
+        throw new Error(`送信データに問題があります: ${problems.join(' / ')}`);
+      }
 
-      await submitResponses(payload);
+      let response;
+      try {
+        response = await submitResponses(payload);
+      } catch (err) {
+        if (!isNetworkError(err)) throw err;
+        const entry = enqueueSubmission(payload, { sessionId: sessionId ?? undefined, answersFingerprint: fingerprint });
+        setOutbox(listOutbox());
+        setQueuedSubmissionId(entry.id);
+        setSubmissionState('queued');
+        return;
+      }
+      // 同じ受付の古い内容が送信待ちに残っていれば、新しい内容を上書きしないよう取り除く
+      if (discardQueuedSubmission(id)) setOutbox(listOutbox());
+      setReceipt(createReceipt(id, response, fingerprint));
       setSubmissionState('saved');
     } catch (err) {
       setSubmissionState('error');
@@ -681,6 +1061,31 @@ function App() {
     );
   }
 
+  const validationErrors = validationIssues.filter((issue) => issue.severity === 'error');
+  if (validationErrors.length > 0) {
+    return (
+      <Container maxWidth="sm" sx={{ mt: 8 }}>
+        <Card>
+          <CardContent>
+            <Typography variant="h5" color="error">設問データに問題があります</Typography>
+            <Typography sx={{ mt: 2 }}>
+              以下の問題が解消されるまで診断を開始できません。管理者に連絡してください。
+            </Typography>
+            <Box component="ul" sx={{ mt: 2, pl: 3 }}>
+              {validationErrors.map((issue, index) => (
+                <li key={`${issue.source}-${index}`}>
+                  <Typography variant="body2">
+                    {issue.source}: {issue.message}
+                  </Typography>
+                </li>
+              ))}
+            </Box>
+          </CardContent>
+        </Card>
+      </Container>
+    );
+  }
+
   if (error || !questionBank) {
     return (
       <Container maxWidth="sm" sx={{ textAlign: 'center', mt: 8 }}>
@@ -699,111 +1104,297 @@ function App() {
 
   const steps: { key: StepId; label: string; icon: React.ReactNode }[] = [
     { key: 'profile', label: 'プロフィール', icon: <AccountCircle /> },
+    { key: 'consent', label: '同意', icon: <PrivacyTip /> },
     { key: 'likert', label: 'Likert設問', icon: <Psychology /> },
     { key: 'forced-choice', label: '二択＋自信度', icon: <CompareArrows /> },
     { key: 'scenario', label: 'シナリオ', icon: <Movie /> },
+    { key: 'review', label: '確認', icon: <FactCheck /> },
     { key: 'result', label: '結果', icon: <BarChart /> },
   ];
 
   const activeStepIndex = steps.findIndex(s => s.key === step);
+  const completedSteps = [
+    Boolean(profile.nickname && profile.grade),
+    consent !== null,
+    likertComplete,
+    forcedComplete,
+    scenarioComplete,
+    answersComplete,
+    answersComplete,
+  ];
+
+  const handleStepSelect = (index: number) => {
+    setReturnToReview(false);
+    switch (steps[index].key) {
+      case 'likert':
+        openLikert(Object.keys(likertAnswers)[0] ?? null);
+        break;
+      case 'forced-choice':
+        openForced(0);
+        break;
+      case 'scenario':
+        openScenario(0);
+        break;
+      default:
+        setStep(steps[index].key);
+    }
+  };
+
+  const resultView = (
+    <ResultStep
+      axisAverage={axisAverage}
+      qualityFlags={qualityFlags}
+      categoryScore={categoryScore}
+      categoryScores={scoreResult?.categories ?? []}
+      stability={stability}
+      categoryMap={categoryMap}
+      fieldMatches={fieldMatches}
+      benchmark={scoreResult?.benchmark ?? null}
+      aptitudeScores={aptitudeScores}
+      cooccurrenceMatrix={cooccurrenceMatrix}
+      explainResult={explainResult}
+      careerMap={careerMap}
+      careerScores={careerScores}
+      categoryDetails={categoryDetails}
+      aptitudeDetails={aptitudeDetails}
+      recommendations={recommendations}
+      recommendationsLoading={recommendationsLoading}
+      recommendationError={recommendationError}
+      tagScores={tagScores}
+      questionBank={questionBank}
+      notes={notes}
+      onNotesChange={setNotes}
+      onSubmit={handleSubmit}
+      onReset={() => setStep('profile')}
+      onOpenReport={() => setReportOpen(true)}
+      onShare={copyShareLink}
+      snapshots={snapshotSummaries}
+      onImportSnapshots={importSnapshots}
+      onClearSnapshots={() => setImportedSnapshots([])}
+      submissionState={submissionState}
+      submissionError={submissionError}
+      receipt={receipt}
+      changedSinceSubmit={receipt !== null && receipt.answersFingerprint !== fingerprint}
+      consent={consent}
+      onOpenConsent={() => setStep('consent')}
+      deletionToken={deletionToken}
+      onRequestDeletion={requestSubmissionDeletion}
+      readOnly={sharedResult !== null}
+    />
+  );
+
+  if (sharedResult) {
+    const versionMismatch = sharedResult.bankVersion !== questionBank.version;
+    return (
+      <Box sx={{ display: 'flex', flexDirection: 'column', minHeight: '100vh' }}>
+        <Header lastSaved={null} />
+        <Container component="main" maxWidth="md" sx={{ mt: 4, mb: 4 }}>
+          <Alert
+            severity="info"
+            sx={{ mb: 2 }}
+            action={
+              <Button color="inherit" size="small" onClick={closeSharedResult}>
+                自分の診断に戻る
+              </Button>
+            }
+          >
+            共有リンクの結果を閲覧しています。この画面の内容は変更・送信できません。
+          </Alert>
+          {versionMismatch && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              この結果は設問バンク {sharedResult.bankVersion ?? '（バージョン不明）'} で回答されたものです。現在の設問バンク
+              {questionBank.version ? `（${questionBank.version}）` : ''}で再計算しているため、元の結果と異なる場合があります。
+            </Alert>
+          )}
+          {resultView}
+        </Container>
+      </Box>
+    );
+  }
 
   return (
     <Box sx={{ display: 'flex', flexDirection: 'column', minHeight: '100vh' }}>
-      <Header onExport={exportSnapshot} onReset={resetAll} lastSaved={lastSaved} />
-
-      <Container component="main" maxWidth="md" sx={{ mt: 4, mb: 4 }}>
-      <QuestionStepper activeStep={activeStepIndex} steps={steps} />
-
-        {step === 'profile' && (
-          <Fade in={step === 'profile'}>
-            <div>
-              <ProfileStep
-                profile={profile}
-                onProfileChange={handleProfileChange}
-                onProceed={() => {
-                  setStep('likert');
-                  likertStartRef.current = performance.now();
-                }}
-                onResume={() => setStep(pendingPersisted.current?.step ?? 'likert')}
-                hasSavedData={pendingPersisted.current !== null}
-              />
-            </div>
-          </Fade>
-        )}
-
-        {step === 'likert' && currentLikertQuestion && (
-          <Fade in={step === 'likert'}>
-            <div>
-              <LikertStep
-                question={currentLikertQuestion}
-                currentAnswer={likertAnswers[currentLikertId]?.value}
-                requiredLikertAnswered={requiredLikertAnswered}
-                requiredLikertCount={requiredLikertCount}
-                totalLikertQuestions={questionBank.likert.length}
-                onAnswer={handleLikertAnswer}
-              />
-            </div>
-          </Fade>
-        )}
-
-        {step === 'forced-choice' && currentForcedQuestion && (
-          <Fade in={step === 'forced-choice'}>
-            <div>
-              <ForcedChoiceStep
-                question={currentForcedQuestion}
-                forcedAnswers={forcedAnswers}
-                forcedIndex={forcedIndex}
-                forcedOrderLength={forcedOrder.length}
-                onAnswer={handleForcedAnswer}
-                onProceed={proceedForced}
-                onSkip={handleForcedSkip}
-              />
-            </div>
-          </Fade>
-        )}
-
-        {step === 'scenario' && currentScenarioQuestion && (
-          <Fade in={step === 'scenario'}>
-            <div>
-              <ScenarioStep
-                question={currentScenarioQuestion}
-                scenarioAnswers={scenarioAnswers}
-                scenarioIndex={scenarioIndex}
-                scenarioOrderLength={scenarioOrder.length}
-                onAnswer={handleScenarioAnswer}
-                onProceed={proceedScenario}
-              />
-            </div>
-          </Fade>
-        )}
-
-        {step === 'result' && (
-          <Fade in={step === 'result'}>
-            <div>
-              <ResultStep
-                axisAverage={axisAverage}
-                categoryScore={categoryScore}
-                aptitudeScores={aptitudeScores}
-                cooccurrenceData={cooccurrenceData}
-                careerMap={careerMap}
-                categoryDetails={categoryDetails}
-                aptitudeDetails={aptitudeDetails}
-                recommendations={recommendations}
-                recommendationsLoading={recommendationsLoading}
-                recommendationError={recommendationError}
-                tagScores={tagScores}
-                questionBank={questionBank}
-                notes={notes}
-                onNotesChange={setNotes}
-                onSubmit={handleSubmit}
-                onReset={() => setStep('profile')}
-                submissionState={submissionState}
-                submissionError={submissionError}
-              />
-            </div>
-          </Fade>
-        )}
-      </Container>
+      <Header
+        onExport={exportSnapshot}
+        onExportCsv={exportCsv}
+        onImport={importSnapshots}
+        onReset={resetAll}
+        onSwitchSession={sessionId ? switchSession : undefined}
+        syncStatus={{ online, pending: pendingOutbox.length, syncing }}
+        onRetrySync={() => void retryOutbox()}
+        failedSubmissions={failedOutbox}
+        onDiscardFailed={discardFailedSubmission}
+        onOpenReport={answersComplete ? () => setReportOpen(true) : undefined}
+        lastSaved={lastSaved}
+      />
+
+      {reportOpen ? (
+        <Container component="main" maxWidth="md" sx={{ mt: 4, mb: 4, '@media print': { m: 0, maxWidth: 'none' } }}>
+          <ReportView
+            profile={profile}
+            axisAverage={axisAverage}
+            categoryScore={categoryScore}
+            fieldMatches={fieldMatches}
+            aptitudeScores={aptitudeScores}
+            categoryDetails={categoryDetails}
+            aptitudeDetails={aptitudeDetails}
+            careerMap={careerMap}
+            recommendations={recommendations}
+            qualityFlags={qualityFlags}
+            benchmark={scoreResult?.benchmark ?? null}
+            notes={notes}
+            onClose={() => setReportOpen(false)}
+          />
+        </Container>
+      ) : (
+        <Container component="main" maxWidth="md" sx={{ mt: 4, mb: 4 }}>
+          <QuestionStepper
+            activeStep={activeStepIndex}
+            steps={steps}
+            completed={completedSteps}
+            onStepSelect={handleStepSelect}
+          />
+
+          {import.meta.env.DEV && <ValidationPanel issues={validationIssues} />}
+
+          {usingCachedData && (
+            <Alert severity="info" sx={{ mb: 3 }} onClose={() => setUsingCachedData(false)}>
+              サーバーに接続できないため、この端末に保存してある設問や進路候補のデータを使っています。
+              回答はこのまま続けられ、結果の送信は接続が戻ってから自動で行います。
+            </Alert>
+          )}
+
+          {draftNotice && (
+            <Alert severity="warning" sx={{ mb: 3 }} onClose={() => setDraftNotice(null)}>
+              <AlertTitle>{draftNotice.title}</AlertTitle>
+              {draftNotice.messages.map((message) => (
+                <div key={message}>{message}</div>
+              ))}
+            </Alert>
+          )}
+
+          {importErrors.length > 0 && (
+            <Alert severity="error" sx={{ mb: 3 }} onClose={() => setImportErrors([])}>
+              {importErrors.map((message) => (
+                <div key={message}>{message}</div>
+              ))}
+            </Alert>
+          )}
+
+          {shareError && (
+            <Alert severity="error" sx={{ mb: 3 }} onClose={closeSharedResult}>
+              {shareError}
+            </Alert>
+          )}
+
+          {step === 'profile' && (
+            <Fade in={step === 'profile'}>
+              <div>
+                <ProfileStep
+                  profile={profile}
+                  onProfileChange={handleProfileChange}
+                  onProceed={startSession}
+                  sessions={sessionId ? [] : sessions}
+                  onResumeSession={resumeSession}
+                  onDeleteSession={deleteSession}
+                  hasPin={sessions.some((session) => session.id === sessionId && session.pinHash)}
+                />
+              </div>
+            </Fade>
+          )}
+
+          {step === 'consent' && (
+            <Fade in={step === 'consent'}>
+              <div>
+                <ConsentStep
+                  consent={consent}
+                  email={profile.email ?? ''}
+                  onEmailChange={(email) => handleProfileChange('email', email)}
+                  onConfirm={confirmConsent}
+                  onBack={() => setStep(answersComplete ? 'result' : 'profile')}
+                />
+              </div>
+            </Fade>
+          )}
+
+          {step === 'likert' && currentLikertQuestion && (
+            <Fade in={step === 'likert'}>
+              <div>
+                <LikertStep
+                  question={currentLikertQuestion}
+                  currentAnswer={likertAnswers[currentLikertQuestion.id]?.value}
+                  requiredLikertAnswered={requiredLikertAnswered}
+                  requiredLikertCount={requiredLikertCount}
+                  totalLikertQuestions={questionBank.likert.length}
+                  onAnswer={handleLikertAnswer}
+                  onBack={backFromLikert}
+                />
+              </div>
+            </Fade>
+          )}
+
+          {step === 'forced-choice' && currentForcedQuestion && (
+            <Fade in={step === 'forced-choice'}>
+              <div>
+                <ForcedChoiceStep
+                  question={currentForcedQuestion}
+                  confidenceLevels={questionBank.forcedChoiceMetadata.confidenceLevels}
+                  forcedAnswers={forcedAnswers}
+                  forcedIndex={forcedIndex}
+                  forcedOrderLength={forcedOrder.length}
+                  onAnswer={handleForcedAnswer}
+                  onProceed={proceedForced}
+                  onSkip={handleForcedSkip}
+                  onBack={backFromForced}
+                />
+              </div>
+            </Fade>
+          )}
+
+          {step === 'scenario' && currentScenarioQuestion && (
+            <Fade in={step === 'scenario'}>
+              <div>
+                <ScenarioStep
+                  question={currentScenarioQuestion}
+                  scenarioAnswers={scenarioAnswers}
+                  draftRanking={scenarioDrafts[currentScenarioQuestion.id]}
+                  scenarioIndex={scenarioIndex}
+                  scenarioOrderLength={scenarioOrder.length}
+                  onAnswer={handleScenarioAnswer}
+                  onRankingChange={handleScenarioRankingChange}
+                  onProceed={proceedScenario}
+                  onBack={backFromScenario}
+                />
+              </div>
+            </Fade>
+          )}
+
+          {step === 'review' && (
+            <Fade in={step === 'review'}>
+              <div>
+                <ReviewStep
+                  questionBank={questionBank}
+                  likertAnswers={likertAnswers}
+                  forcedAnswers={forcedAnswers}
+                  scenarioAnswers={scenarioAnswers}
+                  onEditLikert={(id) => editFromReview(() => openLikert(id))}
+                  onEditForced={(index) => editFromReview(() => openForced(index))}
+                  onEditScenario={(index) => editFromReview(() => openScenario(index))}
+                  onProceed={() => setStep('result')}
+                />
+              </div>
+            </Fade>
+          )}
+
+          {step === 'result' && (
+            <Fade in={step === 'result'}>
+              <div>
+                {resultView}
+              </div>
+            </Fade>
+          )}
+        </Container>
+      )}
     </Box>
   );
 }
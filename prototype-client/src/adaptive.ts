@@ -0,0 +1,157 @@
+import type { LikertQuestion } from './types'
+
+// Likert設問の適応出題。カテゴリごとに正規-正規モデルで事後分布を更新し、
+// 上位カテゴリの境界付近で不確実性を最も減らす設問を選ぶ。
+
+export const PRIOR_MEAN = 3
+export const PRIOR_VARIANCE = 4
+export const RESPONSE_VARIANCE = 2.25
+export const TOP_CATEGORY_COUNT = 3
+export const STOP_CONFIDENCE = 0.9
+
+export interface CategoryPosterior {
+  axis: string
+  category: string
+  mean: number
+  variance: number
+  count: number
+}
+
+export type PosteriorMap = Map<string, CategoryPosterior>
+
+function recode(value: number, polarity: 'positive' | 'reverse'): number {
+  return polarity === 'reverse' ? 7 - value : value - 1
+}
+
+function loadings(question: LikertQuestion): { axis: string; category: string; weight: number }[] {
+  return [
+    { axis: question.axis, category: question.primaryCategory, weight: 1 },
+    ...(question.relatedCategories ?? []).map((rel) => ({
+      axis: rel.axis,
+      category: rel.category,
+      weight: rel.weight,
+    })),
+  ]
+}
+
+export function normalCdf(z: number): number {
+  // Abramowitz & Stegun 7.1.26
+  const t = 1 / (1 + 0.3275911 * (Math.abs(z) / Math.SQRT2))
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+  const erf = 1 - poly * Math.exp(-(z * z) / 2)
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2
+}
+
+export function computeCategoryPosteriors(
+  questions: LikertQuestion[],
+  answers: Record<string, { value: number }>,
+): PosteriorMap {
+  const sums = new Map<string, { axis: string; precision: number; weighted: number; count: number }>()
+  questions.forEach((question) => {
+    loadings(question).forEach(({ axis, category }) => {
+      if (!sums.has(category)) {
+        sums.set(category, { axis, precision: 1 / PRIOR_VARIANCE, weighted: PRIOR_MEAN / PRIOR_VARIANCE, count: 0 })
+      }
+    })
+  })
+
+  questions.forEach((question) => {
+    const answer = answers[question.id]
+    if (!answer) return
+    const observed = recode(answer.value, question.polarity)
+    loadings(question).forEach(({ category, weight }) => {
+      const entry = sums.get(category)!
+      entry.precision += weight / RESPONSE_VARIANCE
+      entry.weighted += (weight * observed) / RESPONSE_VARIANCE
+      entry.count += 1
+    })
+  })
+
+  const posteriors: PosteriorMap = new Map()
+  sums.forEach((entry, category) => {
+    posteriors.set(category, {
+      axis: entry.axis,
+      category,
+      mean: entry.weighted / entry.precision,
+      variance: 1 / entry.precision,
+      count: entry.count,
+    })
+  })
+  return posteriors
+}
+
+function axisGroups(posteriors: PosteriorMap): CategoryPosterior[][] {
+  const groups = new Map<string, CategoryPosterior[]>()
+  posteriors.forEach((posterior) => {
+    const group = groups.get(posterior.axis) ?? []
+    group.push(posterior)
+    groups.set(posterior.axis, group)
+  })
+  return Array.from(groups.values()).map((group) => [...group].sort((a, b) => b.mean - a.mean))
+}
+
+// 上位K件と残りの境界を挟んで取り違える確率（0〜1）
+function boundaryRelevance(posteriors: PosteriorMap): Map<string, number> {
+  const relevance = new Map<string, number>()
+  axisGroups(posteriors).forEach((group) => {
+    if (group.length <= TOP_CATEGORY_COUNT) {
+      group.forEach((p) => relevance.set(p.category, 1))
+      return
+    }
+    const boundary = (group[TOP_CATEGORY_COUNT - 1].mean + group[TOP_CATEGORY_COUNT].mean) / 2
+    group.forEach((p) => {
+      const z = Math.abs(p.mean - boundary) / Math.sqrt(p.variance)
+      relevance.set(p.category, 2 * (1 - normalCdf(z)))
+    })
+  })
+  return relevance
+}
+
+function expectedUncertaintyReduction(
+  question: LikertQuestion,
+  posteriors: PosteriorMap,
+  relevance: Map<string, number>,
+): number {
+  return loadings(question).reduce((acc, { category, weight }) => {
+    const posterior = posteriors.get(category)
+    if (!posterior) return acc
+    const nextVariance = 1 / (1 / posterior.variance + weight / RESPONSE_VARIANCE)
+    return acc + (posterior.variance - nextVariance) * (relevance.get(category) ?? 0)
+  }, 0)
+}
+
+export function isTopSeparated(posteriors: PosteriorMap, axes?: string[]): boolean {
+  return axisGroups(posteriors).every((group) => {
+    if (group.length <= TOP_CATEGORY_COUNT) return true
+    if (axes && !axes.includes(group[0].axis)) return true
+    const inside = group[TOP_CATEGORY_COUNT - 1]
+    const outside = group[TOP_CATEGORY_COUNT]
+    const z = (inside.mean - outside.mean) / Math.sqrt(inside.variance + outside.variance)
+    return normalCdf(z) >= STOP_CONFIDENCE
+  })
+}
+
+export function pickNextLikertQuestion(
+  questions: LikertQuestion[],
+  answers: Record<string, { value: number }>,
+  posteriors: PosteriorMap,
+  requiredOnly = false,
+): LikertQuestion | undefined {
+  const answered = new Set(Object.keys(answers))
+  const candidates = questions.filter((q) => !answered.has(q.id) && (!requiredOnly || q.required))
+  if (candidates.length === 0 && requiredOnly) {
+    return pickNextLikertQuestion(questions, answers, posteriors, false)
+  }
+  // 残りの設問で動かせる軸について上位が確定していれば打ち切る
+  if (!requiredOnly && isTopSeparated(posteriors, candidates.map((q) => q.axis))) {
+    return undefined
+  }
+
+  const relevance = boundaryRelevance(posteriors)
+  return candidates
+    .map((question) => ({
+      question,
+      info: expectedUncertaintyReduction(question, posteriors, relevance),
+    }))
+    .sort((a, b) => b.info - a.info)[0]?.question
+}
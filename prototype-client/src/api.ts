@@ -2,30 +2,102 @@ import type {
   QuestionBank,
   LikertQuestion,
   ForcedChoiceQuestion,
+  ForcedChoiceMetadata,
+  ConfidenceLevel,
   ScenarioQuestion,
   ResponsePayload,
   AptitudeDetails,
   RecommendationItem,
+  BenchmarkNormSet,
+  CategoryMapEntry,
 } from './types'
+import { isRecord } from './utils'
 
 const API_BASE = import.meta.env.VITE_API_BASE ?? '/api'
 
+// サーバーがエラーを返したときの Error。status で再送すれば通る失敗かを判別する
+export class ApiError extends Error {
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = status
+  }
+}
+
+const DEFAULT_CONFIDENCE_LEVELS: ConfidenceLevel[] = [
+  { key: 'high', label: 'とても自信がある', multiplier: 1.0 },
+  { key: 'mid', label: 'まあ自信がある', multiplier: 0.7 },
+  { key: 'low', label: 'あまり自信がない', multiplier: 0.5 },
+]
+
+// 参照データ（設問・カテゴリ情報など）は取得できたら localStorage に控えておき、
+// 通信できないときやサーバーが応答しないときはその控えで応答する
+const REFERENCE_CACHE_PREFIX = 'major-diagnosis-cache:'
+let servedFromCache = false
+
+function cachedResponse(cacheKey: string): Response | null {
+  const cached = localStorage.getItem(REFERENCE_CACHE_PREFIX + cacheKey)
+  if (cached === null) return null
+  servedFromCache = true
+  return new Response(cached, { status: 200, headers: { 'Content-Type': 'application/json' } })
+}
+
+// POST で取得する参照データ（進路候補など）は、要求内容ごとの cacheKey で控える
+async function fetchReference(path: string, init?: RequestInit, cacheKey = path): Promise<Response> {
+  let response: Response
+  try {
+    response = await fetch(`${API_BASE}${path}`, init)
+  } catch (err) {
+    const cached = cachedResponse(cacheKey)
+    if (!cached) throw err
+    return cached
+  }
+  if (response.ok) {
+    try {
+      localStorage.setItem(REFERENCE_CACHE_PREFIX + cacheKey, await response.clone().text())
+    } catch (err) {
+      console.warn('Failed to cache reference data', err)
+    }
+    return response
+  }
+  return (response.status >= 500 && cachedResponse(cacheKey)) || response
+}
+
+// 直近の読み込みで控えのデータを使ったかどうか
+export function isServedFromCache(): boolean {
+  return servedFromCache
+}
+
 async function fetchJson<T>(path: string): Promise<T> {
-  const response = await fetch(`${API_BASE}${path}`)
+  const response = await fetchReference(path)
   if (!response.ok) {
     throw new Error(`API request failed: ${response.status} ${response.statusText}`)
   }
   return (await response.json()) as T
 }
 
-export async function fetchLikertQuestions(): Promise<LikertQuestion[]> {
-  const root = await fetchJson<{ items: LikertQuestion[] }>('/questions/likert')
-  return root.items
+export async function fetchLikertQuestions(): Promise<{ version?: string; items: LikertQuestion[] }> {
+  const root = await fetchJson<{ metadata?: { version?: string }; items: LikertQuestion[] }>('/questions/likert')
+  return { version: root.metadata?.version, items: root.items }
 }
 
-export async function fetchForcedChoiceQuestions(): Promise<ForcedChoiceQuestion[]> {
-  const root = await fetchJson<{ items: ForcedChoiceQuestion[] }>('/questions/forced-choice')
-  return root.items
+export async function fetchForcedChoiceQuestions(): Promise<{
+  metadata: ForcedChoiceMetadata
+  items: ForcedChoiceQuestion[]
+}> {
+  const root = await fetchJson<{ metadata?: Partial<ForcedChoiceMetadata>; items: ForcedChoiceQuestion[] }>(
+    '/questions/forced-choice',
+  )
+  const levels = root.metadata?.confidenceLevels
+  return {
+    metadata: {
+      ...root.metadata,
+      confidenceLevels: levels && levels.length > 0 ? levels : DEFAULT_CONFIDENCE_LEVELS,
+    },
+    items: root.items,
+  }
 }
 
 export async function fetchScenarioQuestions(): Promise<ScenarioQuestion[]> {
@@ -40,11 +112,17 @@ export async function fetchQuestionBank(): Promise<QuestionBank> {
     fetchScenarioQuestions(),
   ])
 
-  return { likert, forcedChoice, scenario }
+  return {
+    version: likert.version,
+    likert: likert.items,
+    forcedChoice: forcedChoice.items,
+    forcedChoiceMetadata: forcedChoice.metadata,
+    scenario,
+  }
 }
 
 export async function fetchCareerMap(): Promise<Record<string, string[]>> {
-  const response = await fetch(`${API_BASE}/careers`)
+  const response = await fetchReference('/careers')
   if (!response.ok) {
     throw new Error('Failed to fetch career map')
   }
@@ -52,33 +130,61 @@ export async function fetchCareerMap(): Promise<Record<string, string[]>> {
 }
 
 export async function fetchCategoryDetails(): Promise<Record<string, { description: string; fitReason: string; courses: string[] }>> {
-  const response = await fetch(`${API_BASE}/categories/details`)
+  const response = await fetchReference('/categories/details')
   if (!response.ok) {
     throw new Error('Failed to fetch category details')
   }
   return response.json()
 }
 
+export async function fetchCategoryMap(): Promise<CategoryMapEntry[]> {
+  const response = await fetchReference('/categories/map')
+  if (response.status === 404) {
+    return []
+  }
+  if (!response.ok) {
+    throw new Error('Failed to fetch category map')
+  }
+  const payload = (await response.json()) as { items?: CategoryMapEntry[] }
+  return payload.items ?? []
+}
+
 export async function fetchAptitudeDetails(): Promise<AptitudeDetails> {
-  const response = await fetch(`${API_BASE}/aptitudes/details`)
+  const response = await fetchReference('/aptitudes/details')
   if (!response.ok) {
     throw new Error('Failed to fetch aptitude details')
   }
   return response.json()
 }
 
+export async function fetchBenchmarkNorms(): Promise<BenchmarkNormSet[]> {
+  const response = await fetchReference('/benchmarks/norms')
+  if (response.status === 404) {
+    return []
+  }
+  if (!response.ok) {
+    throw new Error('Failed to fetch benchmark norms')
+  }
+  const payload = (await response.json()) as { items?: BenchmarkNormSet[] }
+  return payload.items ?? []
+}
+
 export async function fetchRecommendations(aptitudes: string[]): Promise<RecommendationItem[]> {
   if (aptitudes.length === 0) {
     return []
   }
 
-  const response = await fetch(`${API_BASE}/recommendations`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
+  const response = await fetchReference(
+    '/recommendations',
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ aptitudes }),
     },
-    body: JSON.stringify({ aptitudes }),
-  })
+    `/recommendations?aptitudes=${[...aptitudes].sort().join(',')}`,
+  )
 
   if (!response.ok) {
     throw new Error('Failed to fetch recommendations')
@@ -88,7 +194,7 @@ export async function fetchRecommendations(aptitudes: string[]): Promise<Recomme
   return payload.items ?? []
 }
 
-export async function submitResponses(payload: ResponsePayload): Promise<void> {
+export async function submitResponses(payload: ResponsePayload): Promise<{ fileName: string; storedAtUtc: string }> {
   const response = await fetch(`${API_BASE}/responses`, {
     method: 'POST',
     headers: {
@@ -98,6 +204,27 @@ export async function submitResponses(payload: ResponsePayload): Promise<void> {
   });
 
   if (!response.ok) {
-    throw new Error('Failed to submit responses');
+    const body: unknown = await response.json().catch(() => null);
+    const detail = isRecord(body) && typeof body.error === 'string' ? `: ${body.error}` : '';
+    throw new ApiError(`サーバーへの送信に失敗しました（${response.status}${detail}）`, response.status);
+  }
+
+  return response.json();
+}
+
+// 受付番号（submissionId）と削除用コードを指定して送信済みデータの削除を依頼する。見つからなければ false を返す
+export async function requestDeletion(submissionId: string, deletionToken: string): Promise<boolean> {
+  const response = await fetch(`${API_BASE}/responses/${encodeURIComponent(submissionId)}`, {
+    method: 'DELETE',
+    headers: {
+      'X-Deletion-Token': deletionToken,
+    },
+  })
+  if (response.status === 404) {
+    return false
+  }
+  if (!response.ok) {
+    throw new ApiError(`Failed to delete submission: ${response.status}`, response.status)
   }
+  return true
 }
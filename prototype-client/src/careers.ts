@@ -0,0 +1,36 @@
+// career_map.json の分野→職業の対応を逆引きし、分野スコアから職業をランキングする
+
+export interface CareerField {
+  field: string
+  score: number
+}
+
+export interface CareerScore {
+  career: string
+  // 対応するすべての分野スコアの平均
+  score: number
+  fields: CareerField[]
+}
+
+export function rankCareers(
+  categoryScore: [string, number][],
+  careerMap: Record<string, string[]>,
+): CareerScore[] {
+  const scores = new Map(categoryScore)
+  const careers = new Map<string, CareerField[]>()
+  Object.entries(careerMap).forEach(([field, names]) => {
+    names.forEach((career) => {
+      const fields = careers.get(career) ?? []
+      fields.push({ field, score: scores.get(field) ?? 0 })
+      careers.set(career, fields)
+    })
+  })
+
+  return Array.from(careers.entries())
+    .map(([career, fields]) => ({
+      career,
+      score: Number((fields.reduce((acc, f) => acc + f.score, 0) / fields.length).toFixed(1)),
+      fields: [...fields].sort((a, b) => b.score - a.score),
+    }))
+    .sort((a, b) => b.score - a.score || a.career.localeCompare(b.career, 'ja'))
+}
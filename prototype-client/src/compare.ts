@@ -0,0 +1,83 @@
+import type { BenchmarkNormSet, QuestionBank } from './types'
+import type { Snapshot } from './snapshot'
+import { applyBenchmark, computeScores, selectBenchmark, toRanking } from './scoring'
+import { computeAxisAverage, recomputeAxisStats, snapConfidence } from './utils'
+
+// 過去のスナップショットを現在の設問バンクで再採点し、今回の結果と比較する
+
+export const SIGNIFICANT_SCORE_CHANGE = 15
+
+export interface SnapshotSummary {
+  label: string
+  generatedAt: string
+  questionBankVersion?: string
+  axisAverage: Record<string, number>
+  ranking: [string, number][]
+}
+
+export interface CategoryChange {
+  category: string
+  current: number
+  currentRank: number
+  // 直近のスナップショットとの比較
+  previous?: number
+  previousRank?: number
+  delta?: number
+  significant: boolean
+  // 古い順に並べたスナップショットごとのスコア
+  history: (number | undefined)[]
+}
+
+export function summarizeSnapshot(
+  bank: QuestionBank,
+  norms: BenchmarkNormSet[],
+  snapshot: Snapshot,
+  label: string,
+): SnapshotSummary {
+  const levels = bank.forcedChoiceMetadata.confidenceLevels
+  const answers = {
+    likert: snapshot.likertAnswers,
+    forced: Object.fromEntries(
+      Object.entries(snapshot.forcedAnswers).map(([id, answer]) => [
+        id,
+        answer.optionKey === 'SKIP' ? answer : { ...answer, confidence: snapConfidence(answer.confidence, levels) },
+      ]),
+    ),
+    scenario: snapshot.scenarioAnswers,
+  }
+  const result = applyBenchmark(computeScores(bank, answers), selectBenchmark(norms, bank.version))
+
+  return {
+    label,
+    generatedAt: snapshot.generatedAt,
+    questionBankVersion: snapshot.questionBankVersion,
+    axisAverage: computeAxisAverage(recomputeAxisStats(bank.likert, snapshot.likertAnswers)),
+    ranking: toRanking(result.categories),
+  }
+}
+
+export function sortByGeneratedAt(summaries: SnapshotSummary[]): SnapshotSummary[] {
+  return [...summaries].sort((a, b) => (Date.parse(a.generatedAt) || 0) - (Date.parse(b.generatedAt) || 0))
+}
+
+export function compareRankings(current: [string, number][], history: SnapshotSummary[]): CategoryChange[] {
+  const ordered = sortByGeneratedAt(history)
+  const latest = ordered[ordered.length - 1]
+  const scoreMaps = ordered.map((summary) => new Map(summary.ranking))
+  const latestRanks = new Map(latest?.ranking.map(([category], index) => [category, index + 1]) ?? [])
+
+  return current.map(([category, score], index) => {
+    const previous = latest ? scoreMaps[scoreMaps.length - 1].get(category) : undefined
+    const delta = previous === undefined ? undefined : Number((score - previous).toFixed(1))
+    return {
+      category,
+      current: score,
+      currentRank: index + 1,
+      previous,
+      previousRank: latestRanks.get(category),
+      delta,
+      significant: delta !== undefined && Math.abs(delta) >= SIGNIFICANT_SCORE_CHANGE,
+      history: scoreMaps.map((scores) => scores.get(category)),
+    }
+  })
+}
@@ -3,9 +3,12 @@ import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, Responsive
 
 interface CustomBarChartProps {
   data: { name: string; score: number }[];
+  domain?: [number, number];
+  unit?: string;
+  onBarClick?: (name: string) => void;
 }
 
-const CustomBarChart: React.FC<CustomBarChartProps> = ({ data }) => {
+const CustomBarChart: React.FC<CustomBarChartProps> = ({ data, domain, unit, onBarClick }) => {
   return (
     <ResponsiveContainer width="100%" height={300}>
       <BarChart
@@ -19,10 +22,15 @@ const CustomBarChart: React.FC<CustomBarChartProps> = ({ data }) => {
       >
         <CartesianGrid strokeDasharray="3 3" />
         <XAxis dataKey="name" />
-        <YAxis />
-        <Tooltip />
+        <YAxis domain={domain} unit={unit} />
+        <Tooltip formatter={(value) => `${value}${unit ?? ''}`} />
         <Legend />
-        <Bar dataKey="score" fill="#1e88e5" />
+        <Bar
+          dataKey="score"
+          fill="#1e88e5"
+          cursor={onBarClick ? 'pointer' : undefined}
+          onClick={(entry) => onBarClick?.(String(entry.payload?.name))}
+        />
       </BarChart>
     </ResponsiveContainer>
   );
@@ -0,0 +1,147 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  InputAdornment,
+  List,
+  ListItem,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
+import type { CareerScore } from '../careers';
+
+interface CareerExplorerProps {
+  careers: CareerScore[];
+  categoryDetails: Record<string, { description: string; fitReason: string; courses: string[] }> | null;
+  onExplain: (career: string) => void;
+}
+
+const PAGE_SIZE = 10;
+
+const CareerExplorer: React.FC<CareerExplorerProps> = ({ careers, categoryDetails, onExplain }) => {
+  const [query, setQuery] = useState('');
+  const [field, setField] = useState('');
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  const fields = useMemo(
+    () => Array.from(new Set(careers.flatMap((career) => career.fields.map((f) => f.field)))).sort(),
+    [careers],
+  );
+  const filtered = useMemo(() => {
+    const keyword = query.trim().toLowerCase();
+    return careers.filter(
+      (career) =>
+        (!field || career.fields.some((f) => f.field === field)) &&
+        (!keyword || career.career.toLowerCase().includes(keyword)),
+    );
+  }, [careers, query, field]);
+
+  if (careers.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        職業データを取得できませんでした。
+      </Typography>
+    );
+  }
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+        <TextField
+          size="small"
+          label="職業名で検索"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setLimit(PAGE_SIZE);
+          }}
+          slotProps={{
+            input: {
+              startAdornment: (
+                <InputAdornment position="start">
+                  <SearchIcon fontSize="small" />
+                </InputAdornment>
+              ),
+            },
+          }}
+        />
+        <TextField
+          select
+          size="small"
+          label="分野で絞り込み"
+          value={field}
+          onChange={(e) => {
+            setField(e.target.value);
+            setLimit(PAGE_SIZE);
+          }}
+          sx={{ minWidth: 200 }}
+        >
+          <MenuItem value="">すべての分野</MenuItem>
+          {fields.map((name) => (
+            <MenuItem key={name} value={name}>
+              {name}
+            </MenuItem>
+          ))}
+        </TextField>
+      </Box>
+
+      {filtered.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+          条件に合う職業が見つかりませんでした。
+        </Typography>
+      ) : (
+        <List dense>
+          {filtered.slice(0, limit).map((career) => {
+            const rank = careers.indexOf(career) + 1;
+            const courses = career.fields.flatMap((f) => categoryDetails?.[f.field]?.courses ?? []);
+            return (
+              <ListItem key={career.career} disableGutters divider sx={{ display: 'block', py: 1.5 }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                  <Typography variant="body2" color="text.secondary" sx={{ minWidth: 32 }}>
+                    {rank}位
+                  </Typography>
+                  <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
+                    {career.career}
+                  </Typography>
+                  <Chip label={career.score} size="small" color="primary" />
+                  <Button size="small" onClick={() => onExplain(career.career)}>
+                    根拠を見る
+                  </Button>
+                </Box>
+                <Box sx={{ display: 'flex', gap: 1, mt: 0.5, flexWrap: 'wrap', alignItems: 'center' }}>
+                  <Typography variant="caption" color="text.secondary">
+                    関連分野:
+                  </Typography>
+                  {career.fields.map((f) => (
+                    <Chip
+                      key={`${career.career}-${f.field}`}
+                      label={`${f.field} ${f.score}`}
+                      size="small"
+                      variant="outlined"
+                      onClick={() => setField(f.field)}
+                    />
+                  ))}
+                </Box>
+                {courses.length > 0 && (
+                  <Typography variant="caption" color="text.secondary" component="div" sx={{ mt: 0.5 }}>
+                    関連する授業: {courses.join('、')}
+                  </Typography>
+                )}
+              </ListItem>
+            );
+          })}
+        </List>
+      )}
+      {filtered.length > limit && (
+        <Box sx={{ textAlign: 'center', mt: 1 }}>
+          <Button onClick={() => setLimit((prev) => prev + PAGE_SIZE)}>さらに表示（残り{filtered.length - limit}件）</Button>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default CareerExplorer;
@@ -0,0 +1,67 @@
+import React, { useMemo, useState } from 'react';
+import { Box, Tab, Tabs, Typography } from '@mui/material';
+import CustomRadarChart from './RadarChart';
+import { AXIS_LABELS } from '../scoring';
+import type { CategoryScore } from '../scoring';
+import type { CategoryMapEntry } from '../types';
+
+interface CategoryRadarTabsProps {
+  scores: CategoryScore[];
+  categoryMap: CategoryMapEntry[];
+}
+
+// 軸ファミリーごとに、カテゴリ定義のカテゴリを正規化スコアで描く
+const CategoryRadarTabs: React.FC<CategoryRadarTabsProps> = ({ scores, categoryMap }) => {
+  const families = useMemo(() => {
+    const entries =
+      categoryMap.length > 0
+        ? categoryMap.map(({ axis, category }) => ({ axis, category }))
+        : scores.map(({ axis, category }) => ({ axis, category }));
+    const normalized = new Map(scores.map((score) => [score.category, score.normalized]));
+    const grouped = new Map<string, { axis: string; value: number; answered: boolean }[]>();
+    entries.forEach(({ axis, category }) => {
+      const list = grouped.get(axis) ?? [];
+      list.push({ axis: category, value: normalized.get(category) ?? 0, answered: normalized.has(category) });
+      grouped.set(axis, list);
+    });
+    const order = Object.keys(AXIS_LABELS);
+    const rank = (axis: string) => (order.includes(axis) ? order.indexOf(axis) : order.length);
+    return Array.from(grouped.entries()).sort(([a], [b]) => rank(a) - rank(b));
+  }, [scores, categoryMap]);
+
+  const [selected, setSelected] = useState(0);
+  const active = families[Math.min(selected, families.length - 1)];
+
+  if (!active) {
+    return null;
+  }
+
+  const [axis, categories] = active;
+  const unanswered = categories.filter((category) => !category.answered).length;
+
+  return (
+    <Box>
+      <Tabs
+        value={Math.min(selected, families.length - 1)}
+        onChange={(_, value: number) => setSelected(value)}
+        variant="scrollable"
+        scrollButtons="auto"
+      >
+        {families.map(([familyAxis, familyCategories]) => (
+          <Tab key={familyAxis} label={`${AXIS_LABELS[familyAxis] ?? familyAxis}（${familyCategories.length}）`} />
+        ))}
+      </Tabs>
+      <CustomRadarChart
+        data={categories.map(({ axis: category, value }) => ({ axis: category, value }))}
+        series={[{ key: 'value', name: AXIS_LABELS[axis] ?? axis, color: '#1d4ed8' }]}
+        domain={[0, 100]}
+      />
+      <Typography variant="caption" color="text.secondary">
+        満点に対する達成率（0〜100）です。
+        {unanswered > 0 && `回答がまだないカテゴリ（${unanswered}件）は0として表示しています。`}
+      </Typography>
+    </Box>
+  );
+};
+
+export default CategoryRadarTabs;
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Checkbox,
+  FormControlLabel,
+  FormGroup,
+  TextField,
+  Typography,
+} from '@mui/material';
+import type { ConsentPayload, ConsentState } from '../types';
+
+interface ConsentStepProps {
+  consent: ConsentState | null;
+  email: string;
+  onEmailChange: (email: string) => void;
+  onConfirm: (consent: ConsentPayload) => void;
+  onBack: () => void;
+}
+
+const ConsentStep: React.FC<ConsentStepProps> = ({ consent, email, onEmailChange, onConfirm, onBack }) => {
+  const [research, setResearch] = useState(consent?.research ?? false);
+  const [contact, setContact] = useState(consent?.contact ?? false);
+
+  return (
+    <Card>
+      <CardHeader title="回答データの取り扱い" />
+      <CardContent>
+        <Typography variant="body2" sx={{ mb: 2 }}>
+          診断結果はこの端末で確認できます。結果をサーバーに送信するかどうか、送信したデータを何に使ってよいかを選んでください。
+          どちらも選ばない場合、結果は送信されません。同意はあとから結果画面で変更できます。
+        </Typography>
+        <FormGroup>
+          <FormControlLabel
+            control={<Checkbox checked={research} onChange={(e) => setResearch(e.target.checked)} />}
+            label="研究・診断の改善に使うことに同意する"
+          />
+          <Typography variant="caption" color="text.secondary" sx={{ ml: 4, mb: 1 }}>
+            ニックネームや連絡先の代わりに、この端末で作る仮名IDと学年・コース・回答だけを送ります。
+          </Typography>
+          <FormControlLabel
+            control={<Checkbox checked={contact} onChange={(e) => setContact(e.target.checked)} />}
+            label="結果について連絡を受けることに同意する"
+          />
+          <Typography variant="caption" color="text.secondary" sx={{ ml: 4 }}>
+            ニックネーム・連絡先・メモも一緒に送ります。
+          </Typography>
+        </FormGroup>
+        {contact && (
+          <TextField
+            fullWidth
+            type="email"
+            label="連絡先"
+            value={email}
+            placeholder="結果について連絡を受け取るメールアドレス"
+            onChange={(e) => onEmailChange(e.target.value)}
+            sx={{ mt: 2 }}
+          />
+        )}
+        {!research && !contact && (
+          <Alert severity="info" sx={{ mt: 2 }}>
+            同意がない場合も診断はそのまま受けられます。結果はこの端末にだけ保存されます。
+          </Alert>
+        )}
+        <Box sx={{ mt: 3, display: 'flex', justifyContent: 'space-between' }}>
+          <Button variant="text" onClick={onBack}>
+            戻る
+          </Button>
+          <Button variant="contained" onClick={() => onConfirm({ research, contact })}>
+            この内容で進む
+          </Button>
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ConsentStep;
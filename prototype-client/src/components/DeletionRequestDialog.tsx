@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  TextField,
+} from '@mui/material';
+
+interface DeletionRequestDialogProps {
+  open: boolean;
+  // 直近に送信した診断の受付番号（入力欄の初期値）
+  initialSubmissionId?: string;
+  initialDeletionToken?: string;
+  onClose: () => void;
+  // 失敗したときは理由を Error で返す
+  onRequest: (submissionId: string, deletionToken: string) => Promise<void>;
+}
+
+const DeletionRequestDialog: React.FC<DeletionRequestDialogProps> = ({
+  open,
+  initialSubmissionId,
+  initialDeletionToken,
+  onClose,
+  onRequest,
+}) => {
+  const [submissionId, setSubmissionId] = useState(initialSubmissionId ?? '');
+  const [deletionToken, setDeletionToken] = useState(initialDeletionToken ?? '');
+  const [status, setStatus] = useState<'idle' | 'sending' | 'done' | 'error'>('idle');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleEnter = () => {
+    setSubmissionId(initialSubmissionId ?? '');
+    setDeletionToken(initialDeletionToken ?? '');
+    setStatus('idle');
+    setError(null);
+  };
+
+  const handleRequest = async () => {
+    setStatus('sending');
+    setError(null);
+    try {
+      await onRequest(submissionId.trim(), deletionToken.trim());
+      setStatus('done');
+    } catch (err) {
+      setStatus('error');
+      setError(err instanceof Error ? err.message : '削除を依頼できませんでした');
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm" slotProps={{ transition: { onEnter: handleEnter } }}>
+      <DialogTitle>送信データの削除を依頼</DialogTitle>
+      <DialogContent>
+        <DialogContentText>
+          結果を送信したときに表示された受付番号と削除用コードを入力してください。サーバーに保存された回答を削除します。
+        </DialogContentText>
+        <TextField
+          autoFocus
+          fullWidth
+          margin="dense"
+          label="受付番号"
+          value={submissionId}
+          disabled={status === 'sending' || status === 'done'}
+          onChange={(e) => setSubmissionId(e.target.value)}
+        />
+        <TextField
+          fullWidth
+          margin="dense"
+          label="削除用コード"
+          value={deletionToken}
+          disabled={status === 'sending' || status === 'done'}
+          onChange={(e) => setDeletionToken(e.target.value)}
+        />
+        {status === 'done' && (
+          <Alert severity="success" sx={{ mt: 2 }}>
+            送信データを削除しました。
+          </Alert>
+        )}
+        {status === 'error' && error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{status === 'done' ? '閉じる' : 'キャンセル'}</Button>
+        {status !== 'done' && (
+          <Button
+            variant="contained"
+            color="error"
+            onClick={() => void handleRequest()}
+            disabled={!submissionId.trim() || !deletionToken.trim() || status === 'sending'}
+          >
+            {status === 'sending' ? '依頼中…' : '削除を依頼'}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default DeletionRequestDialog;
@@ -0,0 +1,85 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  LinearProgress,
+  List,
+  ListItem,
+  Typography,
+} from '@mui/material';
+import { EVIDENCE_KIND_LABELS } from '../evidence';
+import type { EvidenceTarget, EvidenceTrace } from '../evidence';
+
+interface EvidenceDialogProps {
+  target: EvidenceTarget | null;
+  trace: EvidenceTrace | null;
+  onClose: () => void;
+}
+
+const KIND_LABELS = {
+  likert: 'Likert',
+  forced: '二択',
+  scenario: 'シナリオ',
+};
+
+const EvidenceDialog: React.FC<EvidenceDialogProps> = ({ target, trace, onClose }) => {
+  return (
+    <Dialog open={target !== null} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>
+        {target && `${EVIDENCE_KIND_LABELS[target.kind]}「${target.name}」の根拠`}
+      </DialogTitle>
+      <DialogContent dividers>
+        {!trace || trace.items.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            このスコアに得点をもたらした回答はまだありません。
+          </Typography>
+        ) : (
+          <>
+            <Typography variant="body2" color="text.secondary">
+              得点への寄与が大きい回答の上位{trace.items.length}件です（合計 {trace.total} 点）。
+            </Typography>
+            <List dense>
+              {trace.items.map((item) => (
+                <ListItem key={item.questionId} disableGutters sx={{ display: 'block', py: 1 }}>
+                  <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+                    <Chip label={item.questionId} size="small" variant="outlined" />
+                    <Chip label={KIND_LABELS[item.kind]} size="small" />
+                    <Typography variant="caption" color="text.secondary">
+                      重み {item.weight} / {item.points} 点
+                    </Typography>
+                  </Box>
+                  <Typography variant="body2" sx={{ mt: 0.5 }}>
+                    {item.prompt}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    回答: {item.answer}
+                  </Typography>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 0.5 }}>
+                    <LinearProgress
+                      variant="determinate"
+                      value={item.share * 100}
+                      sx={{ flexGrow: 1, height: 6, borderRadius: 3 }}
+                    />
+                    <Typography variant="caption" sx={{ minWidth: 40, textAlign: 'right' }}>
+                      {Math.round(item.share * 100)}%
+                    </Typography>
+                  </Box>
+                </ListItem>
+              ))}
+            </List>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>閉じる</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default EvidenceDialog;
@@ -1,28 +1,38 @@
 import React from 'react';
 import Grid from '@mui/material/Grid';
-import { Box, Button, Card, CardContent, CardHeader, LinearProgress, Slider, Typography } from '@mui/material';
-import type { ForcedChoiceQuestion } from '../types';
+import { Box, Button, Card, CardContent, CardHeader, LinearProgress, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material';
+import type { ConfidenceLevel, ForcedChoiceQuestion } from '../types';
+import { defaultConfidenceLevel } from '../utils';
 
 interface ForcedChoiceStepProps {
   question: ForcedChoiceQuestion;
+  confidenceLevels: ConfidenceLevel[];
   forcedAnswers: Record<string, { optionKey: string; confidence: number }>;
   forcedIndex: number;
   forcedOrderLength: number;
   onAnswer: (question: ForcedChoiceQuestion, optionKey: string, confidence: number) => void;
   onProceed: () => void;
   onSkip: (question: ForcedChoiceQuestion) => void;
+  onBack: () => void;
 }
 
 const ForcedChoiceStep: React.FC<ForcedChoiceStepProps> = ({
   question,
+  confidenceLevels,
   forcedAnswers,
   forcedIndex,
   forcedOrderLength,
   onAnswer,
   onProceed,
   onSkip,
+  onBack,
 }) => {
   const progress = Math.round(((forcedIndex + 1) / forcedOrderLength) * 100);
+  const answer = forcedAnswers[question.id];
+  const selectedOption = question.options.find((option) => option.key === answer?.optionKey);
+  const selectedConfidence = selectedOption
+    ? answer.confidence
+    : defaultConfidenceLevel(confidenceLevels).multiplier;
 
   return (
     <Card>
@@ -36,8 +46,7 @@ const ForcedChoiceStep: React.FC<ForcedChoiceStepProps> = ({
         </Box>
         <Grid container spacing={2}>
           {question.options.map((option) => {
-            const optionKey = `${question.id}|${option.key}`;
-            const selected = Boolean(forcedAnswers[optionKey]);
+            const selected = selectedOption?.key === option.key;
             return (
               <Grid size={{ xs: 12, md: 6 }} key={option.key}>
                 <Card
@@ -53,7 +62,7 @@ const ForcedChoiceStep: React.FC<ForcedChoiceStepProps> = ({
                     },
                   }}
                   onClick={() => {
-                    onAnswer(question, option.key, forcedAnswers[optionKey]?.confidence ?? 0.7);
+                    onAnswer(question, option.key, selectedConfidence);
                   }}
                 >
                   <CardContent>
@@ -67,37 +76,35 @@ const ForcedChoiceStep: React.FC<ForcedChoiceStepProps> = ({
         </Grid>
         <Box sx={{ mt: 3 }}>
           <Typography gutterBottom>自信度</Typography>
-          <Slider
-            min={0.5}
-            max={1}
-            step={0.1}
-            value={
-              question.options
-                .map((option) => forcedAnswers[`${question.id}|${option.key}`]?.confidence)
-                .find((val) => val !== undefined) ?? 0.7
-            }
-            onChange={(_, value) => {
-              const selectedOption = question.options.find((option) =>
-                forcedAnswers[`${question.id}|${option.key}`],
-              );
-              if (selectedOption) {
-                onAnswer(question, selectedOption.key, value as number);
+          <ToggleButtonGroup
+            exclusive
+            fullWidth
+            color="primary"
+            value={selectedConfidence}
+            disabled={!selectedOption}
+            onChange={(_, value: number | null) => {
+              if (selectedOption && value !== null) {
+                onAnswer(question, selectedOption.key, value);
               }
             }}
-            valueLabelDisplay="auto"
-          />
+          >
+            {confidenceLevels.map((level) => (
+              <ToggleButton key={level.key} value={level.multiplier}>
+                {level.label}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
         </Box>
         <Box sx={{ mt: 3, display: 'flex', justifyContent: 'flex-end', gap: 2 }}>
+          <Button variant="text" onClick={onBack} sx={{ mr: 'auto' }}>
+            戻る
+          </Button>
           <Button variant="text" onClick={() => onSkip(question)}>
             どちらでもない
           </Button>
           <Button
             variant="contained"
-            disabled={
-              !question.options.some(
-                (option) => forcedAnswers[`${question.id}|${option.key}`],
-              )
-            }
+            disabled={!selectedOption}
             onClick={onProceed}
           >
             次へ
@@ -1,35 +1,142 @@
-import React from 'react';
-import { AppBar, Toolbar, Typography, Button, Box } from '@mui/material';
+import React, { useState } from 'react';
+import { AppBar, Toolbar, Typography, Button, Box, Chip, ListItemText, Menu, MenuItem } from '@mui/material';
+import CloudOffIcon from '@mui/icons-material/CloudOff';
+import CloudUploadIcon from '@mui/icons-material/CloudUpload';
+import ErrorOutlineIcon from '@mui/icons-material/ErrorOutline';
+import SnapshotImportButton from './SnapshotImportButton';
+import type { OutboxEntry } from '../outbox';
 
 interface HeaderProps {
-  onExport: () => void;
-  onReset: () => void;
+  onExport?: () => void;
+  onExportCsv?: (kind: 'answers' | 'scores') => void;
+  onImport?: (files: File[]) => void;
+  onReset?: () => void;
+  onSwitchSession?: () => void;
+  onOpenReport?: () => void;
+  // 接続状態と送信待ちの件数
+  syncStatus?: { online: boolean; pending: number; syncing: boolean };
+  onRetrySync?: () => void;
+  // 再送をやめた送信待ち。確認して破棄してもらう
+  failedSubmissions?: OutboxEntry[];
+  onDiscardFailed?: (id: string) => void;
   lastSaved: Date | null;
 }
 
-const Header: React.FC<HeaderProps> = ({ onExport, onReset, lastSaved }) => {
+const Header: React.FC<HeaderProps> = ({
+  onExport,
+  onExportCsv,
+  onImport,
+  onReset,
+  onSwitchSession,
+  onOpenReport,
+  syncStatus,
+  onRetrySync,
+  failedSubmissions = [],
+  onDiscardFailed,
+  lastSaved,
+}) => {
+  const [exportAnchor, setExportAnchor] = useState<HTMLElement | null>(null);
+  const [failedAnchor, setFailedAnchor] = useState<HTMLElement | null>(null);
+
+  const runExport = (action: () => void) => {
+    setExportAnchor(null);
+    action();
+  };
+
   return (
-    <AppBar position="static">
+    <AppBar position="static" sx={{ displayPrint: 'none' }}>
       <Toolbar>
         <Typography variant="h6" component="div" sx={{ flexGrow: 1 }}>
           大学分野診断 β
         </Typography>
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          {syncStatus && !syncStatus.online && (
+            <Chip
+              icon={<CloudOffIcon />}
+              label={syncStatus.pending > 0 ? `オフライン（未送信 ${syncStatus.pending}件）` : 'オフライン'}
+              size="small"
+              color="warning"
+            />
+          )}
+          {syncStatus?.online && syncStatus.pending > 0 && (
+            <Chip
+              icon={<CloudUploadIcon />}
+              label={syncStatus.syncing ? '送信中…' : `未送信 ${syncStatus.pending}件・再送`}
+              size="small"
+              color="warning"
+              onClick={syncStatus.syncing ? undefined : onRetrySync}
+            />
+          )}
+          {failedSubmissions.length > 0 && (
+            <>
+              <Chip
+                icon={<ErrorOutlineIcon />}
+                label={`送信できなかった結果 ${failedSubmissions.length}件`}
+                size="small"
+                color="error"
+                onClick={(e) => setFailedAnchor(e.currentTarget)}
+              />
+              <Menu anchorEl={failedAnchor} open={failedAnchor !== null} onClose={() => setFailedAnchor(null)}>
+                {failedSubmissions.map((entry) => (
+                  <MenuItem
+                    key={entry.id}
+                    onClick={() => {
+                      if (window.confirm('この送信を破棄しますか？（回答はこの端末の下書きに残ります）')) {
+                        setFailedAnchor(null);
+                        onDiscardFailed?.(entry.id);
+                      }
+                    }}
+                  >
+                    <ListItemText
+                      primary={`${new Date(entry.queuedAt).toLocaleString()} の送信（クリックで破棄）`}
+                      secondary={entry.lastError}
+                    />
+                  </MenuItem>
+                ))}
+              </Menu>
+            </>
+          )}
           {lastSaved && (
             <Typography variant="caption">
               最終保存: {lastSaved.toLocaleTimeString()}
             </Typography>
           )}
-          <Button color="inherit" onClick={onExport}>
-            ローカルにエクスポート
-          </Button>
-          <Button color="inherit" onClick={() => {
-            if (window.confirm('回答データをすべてリセットしますか？')) {
-              onReset();
-            }
-          }}>
-            回答をリセット
-          </Button>
+          {onOpenReport && (
+            <Button color="inherit" onClick={onOpenReport}>
+              レポート
+            </Button>
+          )}
+          {onExport && (
+            <>
+              <Button color="inherit" onClick={(e) => setExportAnchor(e.currentTarget)}>
+                ローカルにエクスポート
+              </Button>
+              <Menu anchorEl={exportAnchor} open={exportAnchor !== null} onClose={() => setExportAnchor(null)}>
+                <MenuItem onClick={() => runExport(onExport)}>スナップショット（JSON）</MenuItem>
+                {onExportCsv && (
+                  <MenuItem onClick={() => runExport(() => onExportCsv('answers'))}>回答一覧（CSV）</MenuItem>
+                )}
+                {onExportCsv && (
+                  <MenuItem onClick={() => runExport(() => onExportCsv('scores'))}>スコア一覧（CSV）</MenuItem>
+                )}
+              </Menu>
+            </>
+          )}
+          {onImport && <SnapshotImportButton onImport={onImport} color="inherit" label="インポート" />}
+          {onSwitchSession && (
+            <Button color="inherit" onClick={onSwitchSession}>
+              利用者を切り替える
+            </Button>
+          )}
+          {onReset && (
+            <Button color="inherit" onClick={() => {
+              if (window.confirm('自分の回答データをリセットしますか？（この端末に保存された他の人の回答は残ります）')) {
+                onReset();
+              }
+            }}>
+              回答をリセット
+            </Button>
+          )}
         </Box>
       </Toolbar>
     </AppBar>
@@ -1,36 +1,120 @@
-import React from 'react';
-import { ScatterChart, Scatter, XAxis, YAxis, ZAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import React, { useMemo, useState } from 'react';
+import { Box, ToggleButton, ToggleButtonGroup, Tooltip, Typography } from '@mui/material';
+import { clusterOrder } from '../cooccurrence';
+import type { CooccurrenceMatrix } from '../cooccurrence';
 
 interface HeatmapProps {
-  data: { x: string; y: string; z: number }[];
+  matrix: CooccurrenceMatrix;
 }
 
-const Heatmap: React.FC<HeatmapProps> = ({ data }) => {
-  if (data.length === 0) {
-    return null;
-  }
+const BASE_COLOR = [29, 78, 216];
+const CELL_SIZE = 36;
+const LABEL_WIDTH = 120;
+
+const cellColor = (value: number) => {
+  const [r, g, b] = BASE_COLOR.map((channel) => Math.round(255 - (255 - channel) * value));
+  return `rgb(${r}, ${g}, ${b})`;
+};
+
+const Heatmap: React.FC<HeatmapProps> = ({ matrix }) => {
+  const [order, setOrder] = useState<'score' | 'cluster'>('cluster');
+
+  const indices = useMemo(
+    () => (order === 'cluster' ? clusterOrder(matrix) : matrix.categories.map((_, i) => i)),
+    [matrix, order],
+  );
 
-  const xDomain = Array.from(new Set(data.map(d => d.x)));
-  const yDomain = Array.from(new Set(data.map(d => d.y)));
+  if (matrix.categories.length < 2) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        回答が増えるとカテゴリ間のつながりが表示されます。
+      </Typography>
+    );
+  }
 
   return (
-    <ResponsiveContainer width="100%" height={400}>
-      <ScatterChart
-        margin={{
-          top: 20,
-          right: 20,
-          bottom: 20,
-          left: 20,
-        }}
-      >
-        <CartesianGrid />
-        <XAxis type="category" dataKey="x" name="category" domain={xDomain} />
-        <YAxis type="category" dataKey="y" name="category" domain={yDomain} />
-        <ZAxis type="number" dataKey="z" name="co-occurrence" range={[100, 1000]} />
-        <Tooltip cursor={{ strokeDasharray: '3 3' }} />
-        <Scatter name="Co-occurrence" data={data} fill="#1d4ed8" />
-      </ScatterChart>
-    </ResponsiveContainer>
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: 2, mb: 2 }}>
+        <Typography variant="body2" color="text.secondary">
+          同じ設問で一緒に得点したカテゴリほど濃く表示されます（上位{matrix.categories.length}カテゴリ）。
+        </Typography>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={order}
+          onChange={(_, value) => value && setOrder(value)}
+        >
+          <ToggleButton value="cluster">まとまり順</ToggleButton>
+          <ToggleButton value="score">スコア順</ToggleButton>
+        </ToggleButtonGroup>
+      </Box>
+
+      <Box sx={{ overflowX: 'auto', pb: 1 }}>
+        <Box
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: `${LABEL_WIDTH}px repeat(${indices.length}, ${CELL_SIZE}px)`,
+            gap: '2px',
+            width: 'max-content',
+          }}
+        >
+          <Box />
+          {indices.map((i) => (
+            <Box
+              key={`col-${matrix.categories[i]}`}
+              sx={{ height: LABEL_WIDTH, display: 'flex', alignItems: 'flex-end', justifyContent: 'center' }}
+            >
+              <Typography variant="caption" sx={{ writingMode: 'vertical-rl', whiteSpace: 'nowrap' }}>
+                {matrix.categories[i]}
+              </Typography>
+            </Box>
+          ))}
+
+          {indices.map((i) => (
+            <React.Fragment key={`row-${matrix.categories[i]}`}>
+              <Typography
+                variant="caption"
+                noWrap
+                sx={{ alignSelf: 'center', textAlign: 'right', pr: 1 }}
+                title={matrix.categories[i]}
+              >
+                {matrix.categories[i]}
+              </Typography>
+              {indices.map((j) =>
+                i === j ? (
+                  <Box key={`${i}-${j}`} sx={{ height: CELL_SIZE, bgcolor: 'grey.200' }} />
+                ) : (
+                  <Tooltip
+                    key={`${i}-${j}`}
+                    arrow
+                    title={`${matrix.categories[i]} × ${matrix.categories[j]}: ${Math.round(
+                      matrix.values[i][j] * 100,
+                    )}（${matrix.itemCounts[i][j]}問で共起）`}
+                  >
+                    <Box sx={{ height: CELL_SIZE, bgcolor: cellColor(matrix.values[i][j]) }} />
+                  </Tooltip>
+                ),
+              )}
+            </React.Fragment>
+          ))}
+        </Box>
+      </Box>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 2 }}>
+        <Typography variant="caption">弱い</Typography>
+        <Box
+          sx={{
+            width: 160,
+            height: 12,
+            borderRadius: 1,
+            background: `linear-gradient(to right, ${cellColor(0)}, ${cellColor(1)})`,
+            border: 1,
+            borderColor: 'divider',
+          }}
+        />
+        <Typography variant="caption">強い</Typography>
+      </Box>
+    </Box>
   );
 };
 
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Box, Button, Card, CardContent, CardHeader, Chip, LinearProgress, Typography } from '@mui/material';
+import { Box, Button, Card, CardContent, CardHeader, Chip, LinearProgress } from '@mui/material';
 import type { LikertQuestion } from '../types';
 
 interface LikertStepProps {
@@ -9,6 +9,7 @@ interface LikertStepProps {
   requiredLikertCount: number;
   totalLikertQuestions: number;
   onAnswer: (value: number) => void;
+  onBack?: () => void;
 }
 
 const LikertStep: React.FC<LikertStepProps> = ({
@@ -18,6 +19,7 @@ const LikertStep: React.FC<LikertStepProps> = ({
   requiredLikertCount,
   totalLikertQuestions,
   onAnswer,
+  onBack,
 }) => {
   const progress = Math.round((requiredLikertAnswered / requiredLikertCount) * 100);
 
@@ -50,6 +52,13 @@ const LikertStep: React.FC<LikertStepProps> = ({
             </Button>
           ))}
         </Box>
+        {onBack && (
+          <Box sx={{ mt: 3 }}>
+            <Button variant="text" onClick={onBack}>
+              前の設問に戻る
+            </Button>
+          </Box>
+        )}
       </CardContent>
     </Card>
   );
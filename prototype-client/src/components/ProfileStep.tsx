@@ -1,21 +1,40 @@
-import React from 'react';
+import React, { useState } from 'react';
 import Grid from '@mui/material/Grid';
 import { Box, Button, Card, CardContent, CardHeader, TextField } from '@mui/material';
 import type { ProfilePayload } from '../types';
+import { PIN_PATTERN, PIN_SUPPORTED } from '../sessions';
+import type { SessionSummary } from '../sessions';
+import SessionPicker from './SessionPicker';
 
 interface ProfileStepProps {
   profile: ProfilePayload;
   onProfileChange: (key: keyof ProfilePayload, value: ProfilePayload[keyof ProfilePayload]) => void;
-  onProceed: () => void;
-  onResume: () => void;
-  hasSavedData: boolean;
+  // 入力された PIN（空なら変更しない）を受け取る
+  onProceed: (pin: string) => void;
+  // 利用中のセッションがない間だけ、端末に保存された回答の一覧を表示する
+  sessions: SessionSummary[];
+  onResumeSession: (id: string, pin: string) => Promise<boolean>;
+  onDeleteSession: (id: string, pin: string) => Promise<boolean>;
+  hasPin: boolean;
 }
 
-const ProfileStep: React.FC<ProfileStepProps> = ({ profile, onProfileChange, onProceed, onResume, hasSavedData }) => {
+const ProfileStep: React.FC<ProfileStepProps> = ({
+  profile,
+  onProfileChange,
+  onProceed,
+  sessions,
+  onResumeSession,
+  onDeleteSession,
+  hasPin,
+}) => {
+  const [pin, setPin] = useState('');
+  const pinInvalid = pin !== '' && !PIN_PATTERN.test(pin);
+
   return (
     <Card>
       <CardHeader title="診断前に教えてください" />
       <CardContent>
+        <SessionPicker sessions={sessions} onResume={onResumeSession} onDelete={onDeleteSession} />
         <Grid container spacing={2}>
           <Grid size={{ xs: 12, sm: 6 }}>
             <TextField
@@ -44,27 +63,30 @@ const ProfileStep: React.FC<ProfileStepProps> = ({ profile, onProfileChange, onP
               onChange={(e) => onProfileChange('track', e.target.value)}
             />
           </Grid>
-          <Grid size={{ xs: 12, sm: 6 }}>
-            <TextField
-              fullWidth
-              type="email"
-              label="連絡先（任意）"
-              value={profile.email}
-              placeholder="結果共有を希望する場合のみ入力"
-              onChange={(e) => onProfileChange('email', e.target.value)}
-            />
-          </Grid>
+          {PIN_SUPPORTED && (
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField
+                fullWidth
+                type="password"
+                label={hasPin ? 'PINを変更（任意）' : 'PIN（任意）'}
+                value={pin}
+                error={pinInvalid}
+                helperText={
+                  pinInvalid
+                    ? '4〜8桁の数字で入力してください'
+                    : '共有端末で他の人の回答に切り替えてしまうのを防ぐ簡易的な鍵です。回答の暗号化はしません'
+                }
+                onChange={(e) => setPin(e.target.value)}
+                slotProps={{ htmlInput: { inputMode: 'numeric' } }}
+              />
+            </Grid>
+          )}
         </Grid>
         <Box sx={{ mt: 3, display: 'flex', justifyContent: 'flex-end', gap: 2 }}>
-          {hasSavedData && (
-            <Button variant="outlined" onClick={onResume}>
-              前回の続きから
-            </Button>
-          )}
           <Button
             variant="contained"
-            onClick={onProceed}
-            disabled={!profile.nickname || !profile.grade}
+            onClick={() => onProceed(pin)}
+            disabled={!profile.nickname || !profile.grade || pinInvalid}
           >
             設問に進む
           </Button>
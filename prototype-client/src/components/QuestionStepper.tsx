@@ -1,22 +1,39 @@
 import React from 'react';
-import { Stepper, Step, StepLabel, useTheme, useMediaQuery } from '@mui/material';
+import { Stepper, Step, StepButton, StepLabel, useTheme, useMediaQuery } from '@mui/material';
 
 interface QuestionStepperProps {
   activeStep: number;
   steps: { key: string; label: string; icon: React.ReactNode }[];
+  completed?: boolean[];
+  onStepSelect?: (index: number) => void;
 }
 
-const QuestionStepper: React.FC<QuestionStepperProps> = ({ activeStep, steps }) => {
+const QuestionStepper: React.FC<QuestionStepperProps> = ({ activeStep, steps, completed = [], onStepSelect }) => {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
 
   return (
-    <Stepper activeStep={activeStep} alternativeLabel={!isMobile} orientation={isMobile ? 'vertical' : 'horizontal'} sx={{ mb: 4 }}>
-      {steps.map(({ key, label, icon }) => (
-        <Step key={key}>
-          <StepLabel StepIconComponent={() => icon}>{!isMobile && label}</StepLabel>
-        </Step>
-      ))}
+    <Stepper
+      nonLinear={Boolean(onStepSelect)}
+      activeStep={activeStep}
+      alternativeLabel={!isMobile}
+      orientation={isMobile ? 'vertical' : 'horizontal'}
+      sx={{ mb: 4 }}
+    >
+      {steps.map(({ key, label, icon }, index) => {
+        const selectable = Boolean(onStepSelect) && index !== activeStep && (completed[index] || index < activeStep);
+        return (
+          <Step key={key} completed={completed[index]}>
+            {selectable ? (
+              <StepButton icon={icon} onClick={() => onStepSelect?.(index)}>
+                {!isMobile && label}
+              </StepButton>
+            ) : (
+              <StepLabel StepIconComponent={() => icon}>{!isMobile && label}</StepLabel>
+            )}
+          </Step>
+        );
+      })}
     </Stepper>
   );
 };
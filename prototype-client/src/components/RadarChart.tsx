@@ -1,18 +1,40 @@
 import React from 'react';
-import { Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, ResponsiveContainer } from 'recharts';
+import { Legend, Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, ResponsiveContainer } from 'recharts';
+
+export interface RadarSeries {
+  key: string;
+  name: string;
+  color: string;
+}
 
 interface RadarChartProps {
-  data: { axis: string; value: number }[];
+  data: { axis: string; [key: string]: string | number | undefined }[];
+  series?: RadarSeries[];
+  domain?: [number, number];
 }
 
-const CustomRadarChart: React.FC<RadarChartProps> = ({ data }) => {
+const DEFAULT_SERIES: RadarSeries[] = [{ key: 'value', name: 'Score', color: '#1d4ed8' }];
+
+const CustomRadarChart: React.FC<RadarChartProps> = ({ data, series = DEFAULT_SERIES, domain }) => {
+  const overlay = series.length > 1;
+
   return (
     <ResponsiveContainer width="100%" height={400}>
       <RadarChart cx="50%" cy="50%" outerRadius="80%" data={data}>
         <PolarGrid />
         <PolarAngleAxis dataKey="axis" />
-        <PolarRadiusAxis />
-        <Radar name="Score" dataKey="value" stroke="#1d4ed8" fill="#38bdf8" fillOpacity={0.6} />
+        <PolarRadiusAxis domain={domain} />
+        {series.map(({ key, name, color }, index) => (
+          <Radar
+            key={key}
+            name={name}
+            dataKey={key}
+            stroke={color}
+            fill={overlay ? color : '#38bdf8'}
+            fillOpacity={overlay ? (index === 0 ? 0.4 : 0.1) : 0.6}
+          />
+        ))}
+        {overlay && <Legend />}
       </RadarChart>
     </ResponsiveContainer>
   );
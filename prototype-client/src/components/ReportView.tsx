@@ -0,0 +1,243 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Divider,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import PrintIcon from '@mui/icons-material/Print';
+import CustomRadarChart from './RadarChart';
+import { AXIS_LABELS } from '../scoring';
+import { QUALITY_MESSAGES } from '../quality';
+import type { FieldMatch } from '../recommend';
+import type {
+  AptitudeDetails,
+  BenchmarkNormSet,
+  ProfilePayload,
+  QualityFlagsPayload,
+  RecommendationItem,
+} from '../types';
+
+interface ReportViewProps {
+  profile: ProfilePayload;
+  axisAverage: Record<string, number>;
+  categoryScore: [string, number][];
+  fieldMatches: FieldMatch[];
+  aptitudeScores: [string, number][];
+  categoryDetails: Record<string, { description: string; fitReason: string; courses: string[] }> | null;
+  aptitudeDetails: AptitudeDetails | null;
+  careerMap: Record<string, string[]> | null;
+  recommendations: RecommendationItem[];
+  qualityFlags: QualityFlagsPayload | null;
+  benchmark: BenchmarkNormSet | null;
+  notes: string;
+  onClose: () => void;
+}
+
+// 印刷時に途中で分割させたくないまとまり
+const blockSx = { breakInside: 'avoid', mb: 3 } as const;
+const pageBreakSx = { '@media print': { breakBefore: 'page' } } as const;
+
+const ReportView: React.FC<ReportViewProps> = ({
+  profile,
+  axisAverage,
+  categoryScore,
+  fieldMatches,
+  aptitudeScores,
+  categoryDetails,
+  aptitudeDetails,
+  careerMap,
+  recommendations,
+  qualityFlags,
+  benchmark,
+  notes,
+  onClose,
+}) => {
+  const radarData = Object.entries(axisAverage).map(([axis, value]) => ({ axis, value }));
+  const flaggedAxes = Object.entries(qualityFlags?.axes ?? {}).filter(([, flags]) => flags.length > 0);
+  const recommendationMap = new Map(recommendations.map((item) => [item.aptitude, item]));
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 2, displayPrint: 'none' }}>
+        <Button variant="outlined" onClick={onClose}>
+          結果画面に戻る
+        </Button>
+        <Button variant="contained" startIcon={<PrintIcon />} onClick={() => window.print()}>
+          印刷する
+        </Button>
+      </Box>
+
+      <Paper
+        variant="outlined"
+        sx={{ p: 4, '@media print': { border: 'none', p: 0, boxShadow: 'none' } }}
+      >
+        <Box sx={blockSx}>
+          <Typography variant="h4">大学分野診断 結果レポート</Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+            作成日: {new Date().toLocaleDateString()}
+          </Typography>
+          <Table size="small" sx={{ mt: 2, maxWidth: 480 }}>
+            <TableBody>
+              <TableRow>
+                <TableCell component="th">ニックネーム</TableCell>
+                <TableCell>{profile.nickname}</TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell component="th">学年</TableCell>
+                <TableCell>{profile.grade}</TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell component="th">文理・コース</TableCell>
+                <TableCell>{profile.track || '未入力'}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        </Box>
+
+        {flaggedAxes.length > 0 && (
+          <Box sx={blockSx}>
+            <Typography variant="h6">回答の信頼性に関する注意</Typography>
+            {flaggedAxes.map(([axis, flags]) => (
+              <Typography key={axis} variant="body2" sx={{ mt: 1 }}>
+                {AXIS_LABELS[axis] ?? axis}: {flags.map((flag) => QUALITY_MESSAGES[flag]).join(' ')}
+              </Typography>
+            ))}
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+              該当する軸の結果は参考程度に受け止めてください。
+            </Typography>
+          </Box>
+        )}
+
+        <Box sx={blockSx}>
+          <Typography variant="h6">軸ごとの傾向</Typography>
+          <Box sx={{ width: '100%', maxWidth: 560, mx: 'auto' }}>
+            <CustomRadarChart data={radarData} />
+          </Box>
+        </Box>
+
+        <Box sx={blockSx}>
+          <Typography variant="h6">スコア上位のカテゴリ</Typography>
+          <Typography variant="body2" color="text.secondary">
+            {benchmark
+              ? `${benchmark.year}年度の受検者分布を加味したハイブリッドスコアです。`
+              : '満点に対する達成率（%）です。'}
+          </Typography>
+          <Table size="small" sx={{ mt: 1 }}>
+            <TableHead>
+              <TableRow>
+                <TableCell>順位</TableCell>
+                <TableCell>カテゴリ</TableCell>
+                <TableCell align="right">スコア</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {categoryScore.slice(0, 10).map(([category, score], index) => (
+                <TableRow key={category}>
+                  <TableCell>{index + 1}</TableCell>
+                  <TableCell>{category}</TableCell>
+                  <TableCell align="right">{score}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Box>
+
+        <Box sx={pageBreakSx}>
+          <Typography variant="h6" sx={{ mb: 1 }}>
+            おすすめの興味領域
+          </Typography>
+          {fieldMatches.slice(0, 3).map(({ field, similarity }) => (
+            <Box key={field} sx={blockSx}>
+              <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
+                {field}（類似度 {Math.round(similarity * 100)}%）
+              </Typography>
+              {categoryDetails?.[field] && (
+                <>
+                  <Typography variant="body2" sx={{ mt: 0.5 }}>
+                    {categoryDetails[field].description}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary" sx={{ mt: 0.5 }}>
+                    {categoryDetails[field].fitReason}
+                  </Typography>
+                  <Typography variant="body2" sx={{ mt: 0.5 }}>
+                    関連する学び: {categoryDetails[field].courses.join('、')}
+                  </Typography>
+                </>
+              )}
+              {careerMap?.[field] && (
+                <Typography variant="body2" sx={{ mt: 0.5 }}>
+                  関連する職業: {careerMap[field].join('、')}
+                </Typography>
+              )}
+            </Box>
+          ))}
+        </Box>
+
+        <Box sx={pageBreakSx}>
+          <Typography variant="h6" sx={{ mb: 1 }}>
+            得意な資質とおすすめアクション
+          </Typography>
+          {aptitudeScores.slice(0, 3).map(([aptitude, score]) => {
+            const detail = aptitudeDetails?.[aptitude];
+            const suggestion = recommendationMap.get(aptitude);
+            return (
+              <Box key={aptitude} sx={blockSx}>
+                <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
+                  {aptitude}（{score}）
+                </Typography>
+                {detail && (
+                  <Typography variant="body2" sx={{ mt: 0.5 }}>
+                    {detail.description}
+                  </Typography>
+                )}
+                {suggestion && (
+                  <Box sx={{ mt: 1, display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+                    {suggestion.majors.length > 0 && (
+                      <Typography variant="body2">おすすめ学部・学科: {suggestion.majors.join('、')}</Typography>
+                    )}
+                    {suggestion.certifications.length > 0 && (
+                      <Typography variant="body2">
+                        取得を目指したい資格: {suggestion.certifications.join('、')}
+                      </Typography>
+                    )}
+                    {suggestion.activities.length > 0 && (
+                      <Typography variant="body2">
+                        課外活動・コンテスト: {suggestion.activities.join('、')}
+                      </Typography>
+                    )}
+                  </Box>
+                )}
+                {detail && detail.related_fields.length > 0 && (
+                  <Box sx={{ display: 'flex', gap: 0.5, mt: 1, flexWrap: 'wrap' }}>
+                    {detail.related_fields.map((field) => (
+                      <Chip key={`${aptitude}-${field}`} label={field} size="small" variant="outlined" />
+                    ))}
+                  </Box>
+                )}
+              </Box>
+            );
+          })}
+        </Box>
+
+        <Divider sx={{ my: 2 }} />
+
+        <Box sx={blockSx}>
+          <Typography variant="h6">メモ</Typography>
+          <Typography variant="body2" sx={{ mt: 1, whiteSpace: 'pre-wrap', minHeight: 80 }}>
+            {notes || '（記入なし）'}
+          </Typography>
+        </Box>
+      </Paper>
+    </Box>
+  );
+};
+
+export default ReportView;
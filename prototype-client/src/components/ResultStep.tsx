@@ -1,9 +1,11 @@
-import React, { useMemo } from "react";
+import React, { useMemo, useState } from "react";
 import Grid from "@mui/material/Grid";
 import {
   Accordion,
   AccordionDetails,
   AccordionSummary,
+  Alert,
+  AlertTitle,
   Box,
   Button,
   Card,
@@ -11,24 +13,51 @@ import {
   CardHeader,
   Chip,
   LinearProgress,
+  Snackbar,
   TextField,
   Typography,
   useMediaQuery,
   useTheme,
 } from "@mui/material";
 import ExpandMoreIcon from "@mui/icons-material/ExpandMore";
-import CustomRadarChart from "./RadarChart";
+import CategoryRadarTabs from "./CategoryRadarTabs";
 import Heatmap from "./Heatmap";
 import CustomBarChart from "./BarChart";
 import TagDetails from "./TagDetails";
+import EvidenceDialog from "./EvidenceDialog";
+import StabilityBadge from "./StabilityBadge";
+import CareerExplorer from "./CareerExplorer";
+import SnapshotComparison from "./SnapshotComparison";
+import SnapshotImportButton from "./SnapshotImportButton";
 import * as types from "../types";
+import { AXIS_LABELS } from "../scoring";
+import type { CategoryScore } from "../scoring";
+import { QUALITY_MESSAGES } from "../quality";
+import type { FieldMatch } from "../recommend";
+import type { CooccurrenceMatrix } from "../cooccurrence";
+import type { EvidenceTarget, EvidenceTrace } from "../evidence";
+import type { SnapshotSummary } from "../compare";
+import type { CareerScore } from "../careers";
+import { STABILITY_TOP_COUNT } from "../stability";
+import type { CategoryStability } from "../stability";
+import { canSubmitWithConsent } from "../submission";
+import DeletionRequestDialog from "./DeletionRequestDialog";
 
 interface ResultStepProps {
   axisAverage: Record<string, number>;
+  qualityFlags: types.QualityFlagsPayload | null;
   categoryScore: [string, number][];
+  categoryScores: CategoryScore[];
+  // null は分析中
+  stability: CategoryStability[] | null;
+  categoryMap: types.CategoryMapEntry[];
+  fieldMatches: FieldMatch[];
+  benchmark: types.BenchmarkNormSet | null;
   aptitudeScores: [string, number][];
-  cooccurrenceData: { x: string; y: string; z: number }[];
+  cooccurrenceMatrix: CooccurrenceMatrix;
+  explainResult: (target: EvidenceTarget) => EvidenceTrace | null;
   careerMap: Record<string, string[]> | null;
+  careerScores: CareerScore[];
   categoryDetails: Record<string, { description: string; fitReason: string; courses: string[] }> | null;
   aptitudeDetails: types.AptitudeDetails | null;
   recommendations: types.RecommendationItem[];
@@ -40,16 +69,37 @@ interface ResultStepProps {
   onNotesChange: (notes: string) => void;
   onSubmit: () => void;
   onReset: () => void;
-  submissionState: "idle" | "saving" | "saved" | "error";
+  onOpenReport: () => void;
+  onShare: () => Promise<void>;
+  snapshots: SnapshotSummary[];
+  onImportSnapshots: (files: File[]) => void;
+  onClearSnapshots: () => void;
+  submissionState: "idle" | "saving" | "saved" | "queued" | "error";
   submissionError: string | null;
+  receipt: types.SubmissionReceipt | null;
+  changedSinceSubmit: boolean;
+  consent: types.ConsentState | null;
+  onOpenConsent: () => void;
+  // 直近の送信の削除用コード。受付情報と一緒に表示する
+  deletionToken: string | null;
+  onRequestDeletion: (submissionId: string, deletionToken: string) => Promise<void>;
+  readOnly?: boolean;
 }
 
 const ResultStep: React.FC<ResultStepProps> = ({
   axisAverage,
+  qualityFlags,
   categoryScore,
+  categoryScores,
+  stability,
+  categoryMap,
+  fieldMatches,
+  benchmark,
   aptitudeScores,
-  cooccurrenceData,
+  cooccurrenceMatrix,
+  explainResult,
   careerMap,
+  careerScores,
   categoryDetails,
   aptitudeDetails,
   recommendations,
@@ -61,27 +111,63 @@ const ResultStep: React.FC<ResultStepProps> = ({
   onNotesChange,
   onSubmit,
   onReset,
+  onOpenReport,
+  onShare,
+  snapshots,
+  onImportSnapshots,
+  onClearSnapshots,
   submissionState,
   submissionError,
+  receipt,
+  changedSinceSubmit,
+  consent,
+  onOpenConsent,
+  deletionToken,
+  onRequestDeletion,
+  readOnly = false,
 }) => {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down("sm"));
 
-  const radarChartData = useMemo(
-    () => Object.entries(axisAverage).map(([axis, value]) => ({ axis, value })),
-    [axisAverage],
-  );
   const topCategories = useMemo(() => categoryScore.slice(0, 3).map(([category]) => category), [categoryScore]);
+  const categoryScoreMap = useMemo(() => new Map(categoryScore), [categoryScore]);
+  const stabilityMap = useMemo(() => new Map((stability ?? []).map((item) => [item.category, item])), [stability]);
+  const stabilityPending = stability === null;
+  const tentative = useMemo(
+    () => topCategories.some((category) => stabilityMap.get(category)?.level !== "stable"),
+    [topCategories, stabilityMap],
+  );
+  const topFieldMatches = useMemo(() => fieldMatches.slice(0, 3), [fieldMatches]);
   const topAptitudes = useMemo(() => aptitudeScores.slice(0, 3).map(([aptitude]) => aptitude), [aptitudeScores]);
   const bottomCategories = useMemo(() => categoryScore.slice(-5).map(([category]) => category), [categoryScore]);
   const barChartData = useMemo(
     () => categoryScore.map(([name, score]) => ({ name, score })),
     [categoryScore],
   );
+  const flaggedAxes = useMemo(
+    () => Object.entries(qualityFlags?.axes ?? {}).filter(([, flags]) => flags.length > 0),
+    [qualityFlags],
+  );
   const recommendationMap = useMemo(
     () => new Map(recommendations.map((item) => [item.aptitude, item])),
     [recommendations],
   );
+  const [evidenceTarget, setEvidenceTarget] = useState<EvidenceTarget | null>(null);
+  const [shareMessage, setShareMessage] = useState<string | null>(null);
+  const [deletionOpen, setDeletionOpen] = useState(false);
+
+  const handleShare = () => {
+    onShare()
+      .then(() => setShareMessage("共有リンクをコピーしました。先生に送ると、この結果を閲覧できます。"))
+      .catch((err) => {
+        console.error(err);
+        setShareMessage("共有リンクを作成できませんでした。");
+      });
+  };
+  const evidenceTrace = useMemo(
+    () => (evidenceTarget ? explainResult(evidenceTarget) : null),
+    [evidenceTarget, explainResult],
+  );
 
   const renderResourceChips = (resources: types.ExternalResource[] | undefined, label: string) => {
     if (!resources || resources.length === 0) {
@@ -144,14 +230,46 @@ const ResultStep: React.FC<ResultStepProps> = ({
           診断結果はこの端末に保存されています。必要に応じてデータをエクスポートし、送信ボタンからサーバーに提出できます。
         </Typography>
 
+        {flaggedAxes.length > 0 && (
+          <Alert severity="warning" sx={{ mb: 3 }}>
+            <AlertTitle>回答の信頼性に関する注意</AlertTitle>
+            {flaggedAxes.map(([axis, flags]) => (
+              <Box key={axis} sx={{ mt: 1 }}>
+                <Typography variant="subtitle2">{AXIS_LABELS[axis] ?? axis}</Typography>
+                {flags.map((flag) => (
+                  <Typography key={`${axis}-${flag}`} variant="body2">
+                    {QUALITY_MESSAGES[flag]}
+                  </Typography>
+                ))}
+              </Box>
+            ))}
+            <Typography variant="body2" sx={{ mt: 1 }}>
+              該当する軸の結果は参考程度に受け止めてください。
+            </Typography>
+          </Alert>
+        )}
+
         <Grid container spacing={4}>
           <Grid size={12}>
             <Section title="あなたにマッチするキーワード" defaultExpanded>
-              <Box sx={{ display: "flex", gap: 1, flexWrap: "wrap" }}>
+              <Box sx={{ display: "flex", gap: 2, flexWrap: "wrap" }}>
                 {topCategories.map((category) => (
-                  <Chip key={category} label={category} color="primary" />
+                  <Box key={category} sx={{ display: "flex", gap: 0.5, alignItems: "center" }}>
+                    <Chip
+                      label={`${category} ${categoryScoreMap.get(category) ?? 0}${benchmark ? "" : "%"}`}
+                      color="primary"
+                      onClick={() => setEvidenceTarget({ kind: "category", name: category })}
+                    />
+                    <StabilityBadge stability={stabilityMap.get(category)} pending={stabilityPending} />
+                  </Box>
                 ))}
               </Box>
+              {stability && stability.length > 0 && tentative && (
+                <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                  回答の揺れによって上位{STABILITY_TOP_COUNT}位が入れ替わる可能性があります。「境界」「暫定」の結果は、
+                  追加の回答や面談で確かめてから判断してください。
+                </Typography>
+              )}
             </Section>
           </Grid>
 
@@ -182,9 +300,14 @@ const ResultStep: React.FC<ResultStepProps> = ({
                       "&:last-of-type": { borderBottom: "none", pb: 0 },
                     }}
                   >
-                    <Typography variant="h5" component="div">
-                      {aptitude}
-                    </Typography>
+                    <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                      <Typography variant="h5" component="div">
+                        {aptitude}
+                      </Typography>
+                      <Button size="small" onClick={() => setEvidenceTarget({ kind: "aptitude", name: aptitude })}>
+                        根拠を見る
+                      </Button>
+                    </Box>
                     {detail && (
                       <>
                         <Typography variant="body1" sx={{ mt: 1 }}>
@@ -260,7 +383,7 @@ const ResultStep: React.FC<ResultStepProps> = ({
 
           <Grid size={12}>
             <Section title="興味領域のストーリー" defaultExpanded={!isMobile}>
-              {topCategories.map((category) => (
+              {topFieldMatches.map(({ field: category, similarity, axes, drivers }) => (
                 <Box
                   key={category}
                   sx={{
@@ -268,9 +391,32 @@ const ResultStep: React.FC<ResultStepProps> = ({
                     "&:first-of-type": { mt: 0 },
                   }}
                 >
-                  <Typography variant="h5" component="div">
-                    {category}
-                  </Typography>
+                  <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                    <Typography variant="h5" component="div">
+                      {category}
+                    </Typography>
+                    <Button size="small" onClick={() => setEvidenceTarget({ kind: "field", name: category })}>
+                      根拠を見る
+                    </Button>
+                  </Box>
+                  <Box sx={{ display: "flex", gap: 1, mt: 1, flexWrap: "wrap", alignItems: "center" }}>
+                    <Chip label={`類似度 ${Math.round(similarity * 100)}%`} color="primary" size="small" />
+                    {axes
+                      .filter((axis) => axis.share >= 0.1)
+                      .map((axis) => (
+                        <Chip
+                          key={`${category}-axis-${axis.axis}`}
+                          label={`${AXIS_LABELS[axis.axis] ?? axis.axis} ${Math.round(axis.share * 100)}%`}
+                          size="small"
+                          variant="outlined"
+                        />
+                      ))}
+                  </Box>
+                  {drivers.length > 0 && (
+                    <Typography variant="body2" sx={{ mt: 1, color: "text.secondary" }}>
+                      決め手になった回答傾向: {drivers.join("・")}
+                    </Typography>
+                  )}
                   {categoryDetails?.[category] && (
                     <>
                       <Typography variant="body1" sx={{ mt: 1 }}>
@@ -294,7 +440,12 @@ const ResultStep: React.FC<ResultStepProps> = ({
                   {careerMap?.[category] && (
                     <Box sx={{ display: "flex", gap: 1, mt: 1, flexWrap: "wrap" }}>
                       {careerMap[category].map((career) => (
-                        <Chip key={`${category}-career-${career}`} label={career} size="small" />
+                        <Chip
+                          key={`${category}-career-${career}`}
+                          label={career}
+                          size="small"
+                          onClick={() => setEvidenceTarget({ kind: "career", name: career })}
+                        />
                       ))}
                     </Box>
                   )}
@@ -304,14 +455,47 @@ const ResultStep: React.FC<ResultStepProps> = ({
           </Grid>
 
           <Grid size={12}>
-            <Section title="スコア可視化（レーダーチャート）" defaultExpanded={!isMobile}>
-              <CustomRadarChart data={radarChartData} />
+            <Section title="職業エクスプローラー" defaultExpanded={!isMobile}>
+              <CareerExplorer
+                careers={careerScores}
+                categoryDetails={categoryDetails}
+                onExplain={(career) => setEvidenceTarget({ kind: "career", name: career })}
+              />
+            </Section>
+          </Grid>
+
+          <Grid size={12}>
+            <Section title="カテゴリ別スコア（レーダーチャート）" defaultExpanded={!isMobile}>
+              <CategoryRadarTabs scores={categoryScores} categoryMap={categoryMap} />
             </Section>
           </Grid>
 
+          {!readOnly && (
+            <Grid size={12}>
+              <Section title="過去の結果との比較" defaultExpanded={snapshots.length > 0}>
+                {snapshots.length > 0 ? (
+                  <SnapshotComparison
+                    axisAverage={axisAverage}
+                    categoryScore={categoryScore}
+                    snapshots={snapshots}
+                    questionBankVersion={questionBank?.version}
+                    onClear={onClearSnapshots}
+                  />
+                ) : (
+                  <Box sx={{ display: "flex", alignItems: "center", gap: 2, flexWrap: "wrap" }}>
+                    <Typography variant="body2" color="text.secondary">
+                      以前にエクスポートした結果ファイルを読み込むと、今回の結果との違いを確認できます。
+                    </Typography>
+                    <SnapshotImportButton onImport={onImportSnapshots} variant="outlined" />
+                  </Box>
+                )}
+              </Section>
+            </Grid>
+          )}
+
           <Grid size={12}>
             <Section title="カテゴリ間のつながり（ヒートマップ）" defaultExpanded={!isMobile}>
-              <Heatmap data={cooccurrenceData} />
+              <Heatmap matrix={cooccurrenceMatrix} />
             </Section>
           </Grid>
 
@@ -323,7 +507,41 @@ const ResultStep: React.FC<ResultStepProps> = ({
 
           <Grid size={12}>
             <Section title="スコアランキング" defaultExpanded={!isMobile}>
-              <CustomBarChart data={barChartData} />
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                {benchmark
+                  ? `${benchmark.year}年度の受検者分布${benchmark.sampleSize ? `（${benchmark.sampleSize}人）` : ""}を加味したハイブリッドスコアです（達成率と同学年内の位置を半分ずつ反映）。`
+                  : "比較用の受検者データがないため、満点に対する達成率で表示しています。"}
+              </Typography>
+              <CustomBarChart
+                data={barChartData}
+                domain={[0, 100]}
+                unit={benchmark ? undefined : "%"}
+                onBarClick={(name) => setEvidenceTarget({ kind: "category", name })}
+              />
+              <Typography variant="caption" color="text.secondary">
+                棒をクリックすると、そのスコアの根拠になった回答を確認できます。
+              </Typography>
+              {(stabilityPending || stability.length > 0) && (
+                <Box sx={{ mt: 2 }}>
+                  <Typography variant="subtitle2">上位カテゴリの安定性</Typography>
+                  {categoryScore.slice(0, 5).map(([category, score]) => {
+                    const item = stabilityMap.get(category);
+                    return (
+                      <Box key={category} sx={{ display: "flex", alignItems: "center", gap: 1, mt: 1, flexWrap: "wrap" }}>
+                        <Typography variant="body2" sx={{ minWidth: 140 }}>
+                          {category}
+                        </Typography>
+                        <StabilityBadge stability={item} pending={stabilityPending} />
+                        {item && (
+                          <Typography variant="caption" color="text.secondary">
+                            {score}（幅 {item.low}〜{item.high}、上位{STABILITY_TOP_COUNT}位率 {Math.round(item.topRate * 100)}%）
+                          </Typography>
+                        )}
+                      </Box>
+                    );
+                  })}
+                </Box>
+              )}
             </Section>
           </Grid>
 
@@ -340,39 +558,124 @@ const ResultStep: React.FC<ResultStepProps> = ({
           </Grid>
         </Grid>
 
-        <Section title="メモと次のアクション" defaultExpanded>
-          <TextField
-            fullWidth
-            multiline
-            rows={4}
-            label="メモ（任意）"
-            value={notes}
-            placeholder="気づきや次のステップを書き留めておくと復習しやすくなります。"
-            onChange={(e) => onNotesChange(e.target.value)}
-            sx={{ mt: 1 }}
-          />
+        {!readOnly && (
+          <Section title="メモと次のアクション" defaultExpanded>
+            <TextField
+              fullWidth
+              multiline
+              rows={4}
+              label="メモ（任意）"
+              value={notes}
+              placeholder="気づきや次のステップを書き留めておくと復習しやすくなります。"
+              onChange={(e) => onNotesChange(e.target.value)}
+              sx={{ mt: 1 }}
+            />
+
+            {canSubmitWithConsent(consent) ? (
+              <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+                送信内容:{" "}
+                {[
+                  consent.research && "研究・改善への利用（仮名IDで送信）",
+                  consent.contact && "結果の連絡（ニックネーム・連絡先・メモを含む）",
+                ]
+                  .filter(Boolean)
+                  .join("／")}
+                <Button size="small" onClick={onOpenConsent}>
+                  変更
+                </Button>
+              </Typography>
+            ) : (
+              <Alert
+                severity="info"
+                sx={{ mt: 2 }}
+                action={
+                  <Button color="inherit" size="small" onClick={onOpenConsent}>
+                    同意の設定へ
+                  </Button>
+                }
+              >
+                結果を送信するには、回答データの取り扱いへの同意が必要です。
+              </Alert>
+            )}
 
-          <Box sx={{ mt: 3, display: "flex", justifyContent: "flex-end", gap: 2 }}>
-            <Button variant="outlined" onClick={onReset}>
-              最初からやり直す
-            </Button>
-            <Button variant="contained" onClick={onSubmit} disabled={submissionState === "saving"}>
-              {submissionState === "saving" ? "送信中…" : "結果を送信"}
-            </Button>
-          </Box>
+            <Box sx={{ mt: 3, display: "flex", justifyContent: "flex-end", flexWrap: "wrap", gap: 2 }}>
+              <Button variant="outlined" onClick={handleShare}>
+                共有リンクをコピー
+              </Button>
+              <Button variant="outlined" onClick={onOpenReport}>
+                印刷用レポート
+              </Button>
+              <Button variant="outlined" onClick={onReset}>
+                最初からやり直す
+              </Button>
+              <Button
+                variant="contained"
+                onClick={onSubmit}
+                disabled={
+                  !canSubmitWithConsent(consent) ||
+                  submissionState === "saving" ||
+                  submissionState === "queued" ||
+                  (receipt !== null && !changedSinceSubmit)
+                }
+              >
+                {submissionState === "saving"
+                  ? "送信中…"
+                  : receipt === null
+                    ? "結果を送信"
+                    : changedSinceSubmit
+                      ? "変更を再送信"
+                      : "送信済み"}
+              </Button>
+            </Box>
 
-          {submissionState === "saved" && (
-            <Typography color="success.main" sx={{ mt: 2 }}>
-              サーバーに保存しました。ご協力ありがとうございます！
-            </Typography>
-          )}
-          {submissionState === "error" && (
-            <Typography color="error" sx={{ mt: 2 }}>
-              送信に失敗しました: {submissionError}
-            </Typography>
-          )}
-        </Section>
+            {receipt && (
+              <Typography color="success.main" sx={{ mt: 2 }}>
+                {new Date(receipt.submittedAt).toLocaleString()} に送信しました（受付番号: {receipt.submissionId}）。
+                {submissionState === "saved" && "ご協力ありがとうございます！"}
+              </Typography>
+            )}
+            {receipt && deletionToken && (
+              <Typography variant="body2" color="text.secondary" sx={{ mt: 1, wordBreak: "break-all" }}>
+                削除用コード: {deletionToken}（送信データの削除を依頼するときに受付番号と一緒に必要です。控えておいてください）
+              </Typography>
+            )}
+            {receipt && changedSinceSubmit && (
+              <Typography color="warning.main" sx={{ mt: 1 }}>
+                送信後に回答や同意の内容が変わっています。再送信すると同じ受付の内容が更新されます。
+              </Typography>
+            )}
+            {submissionState === "queued" && (
+              <Typography color="warning.main" sx={{ mt: 2 }}>
+                オフラインのため送信待ちにしました。接続が戻ると自動で送信します。
+              </Typography>
+            )}
+            {submissionState === "error" && (
+              <Typography color="error" sx={{ mt: 2 }}>
+                送信に失敗しました: {submissionError}
+              </Typography>
+            )}
+            <Box sx={{ mt: 2, textAlign: "right" }}>
+              <Button size="small" color="inherit" onClick={() => setDeletionOpen(true)}>
+                送信データの削除を依頼
+              </Button>
+            </Box>
+            <DeletionRequestDialog
+              open={deletionOpen}
+              initialSubmissionId={receipt?.submissionId}
+              initialDeletionToken={receipt ? deletionToken ?? undefined : undefined}
+              onClose={() => setDeletionOpen(false)}
+              onRequest={onRequestDeletion}
+            />
+          </Section>
+        )}
       </CardContent>
+      <EvidenceDialog target={evidenceTarget} trace={evidenceTrace} onClose={() => setEvidenceTarget(null)} />
+      <Snackbar
+        open={shareMessage !== null}
+        autoHideDuration={4000}
+        onClose={() => setShareMessage(null)}
+        message={shareMessage}
+      />
     </Card>
   );
 };
@@ -0,0 +1,146 @@
+import React from 'react';
+import {
+  Accordion,
+  AccordionDetails,
+  AccordionSummary,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  List,
+  ListItem,
+  ListItemText,
+  Typography,
+} from '@mui/material';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import type {
+  ForcedAnswerState,
+  LikertAnswerState,
+  QuestionBank,
+  ScenarioAnswerState,
+} from '../types';
+
+interface ReviewStepProps {
+  questionBank: QuestionBank;
+  likertAnswers: Record<string, LikertAnswerState>;
+  forcedAnswers: Record<string, ForcedAnswerState>;
+  scenarioAnswers: Record<string, ScenarioAnswerState>;
+  onEditLikert: (questionId: string) => void;
+  onEditForced: (index: number) => void;
+  onEditScenario: (index: number) => void;
+  onProceed: () => void;
+}
+
+const ReviewStep: React.FC<ReviewStepProps> = ({
+  questionBank,
+  likertAnswers,
+  forcedAnswers,
+  scenarioAnswers,
+  onEditLikert,
+  onEditForced,
+  onEditScenario,
+  onProceed,
+}) => {
+  const confidenceLabel = (confidence: number) =>
+    questionBank.forcedChoiceMetadata.confidenceLevels.find((level) => level.multiplier === confidence)?.label;
+
+  const likertItems = questionBank.likert.filter((q) => likertAnswers[q.id]);
+  const forcedItems = questionBank.forcedChoice
+    .map((question, index) => ({ question, index }))
+    .filter(({ question }) => forcedAnswers[question.id]);
+  const scenarioItems = questionBank.scenario
+    .map((question, index) => ({ question, index }))
+    .filter(({ question }) => scenarioAnswers[question.id]);
+
+  const editButton = (onClick: () => void) => (
+    <Button size="small" onClick={onClick}>
+      修正
+    </Button>
+  );
+
+  return (
+    <Card>
+      <CardHeader
+        title="回答の確認"
+        subheader="結果を見る前に回答を見直せます。修正した内容はスコアに反映されます。"
+      />
+      <CardContent>
+        <Accordion disableGutters>
+          <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+            <Typography variant="h6">Likert設問（{likertItems.length}問）</Typography>
+          </AccordionSummary>
+          <AccordionDetails>
+            <List dense>
+              {likertItems.map((question) => (
+                <ListItem key={question.id} secondaryAction={editButton(() => onEditLikert(question.id))}>
+                  <ListItemText
+                    primary={question.prompt}
+                    secondary={`回答: ${likertAnswers[question.id].value} / 7`}
+                  />
+                </ListItem>
+              ))}
+            </List>
+          </AccordionDetails>
+        </Accordion>
+
+        <Accordion disableGutters>
+          <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+            <Typography variant="h6">二択設問（{forcedItems.length}問）</Typography>
+          </AccordionSummary>
+          <AccordionDetails>
+            <List dense>
+              {forcedItems.map(({ question, index }) => {
+                const answer = forcedAnswers[question.id];
+                const option = question.options.find((o) => o.key === answer.optionKey);
+                return (
+                  <ListItem key={question.id} secondaryAction={editButton(() => onEditForced(index))}>
+                    <ListItemText
+                      primary={question.prompt}
+                      secondary={
+                        option
+                          ? `${option.key}: ${option.label}（${confidenceLabel(answer.confidence) ?? answer.confidence}）`
+                          : 'どちらでもない'
+                      }
+                    />
+                  </ListItem>
+                );
+              })}
+            </List>
+          </AccordionDetails>
+        </Accordion>
+
+        <Accordion disableGutters>
+          <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+            <Typography variant="h6">シナリオ（{scenarioItems.length}問）</Typography>
+          </AccordionSummary>
+          <AccordionDetails>
+            <List dense>
+              {scenarioItems.map(({ question, index }) => (
+                <ListItem key={question.id} secondaryAction={editButton(() => onEditScenario(index))}>
+                  <ListItemText
+                    primary={question.title}
+                    secondary={scenarioAnswers[question.id].rankedOptions
+                      .map((key, rank) => {
+                        const option = question.options.find((o) => o.key === key);
+                        return `${rank + 1}位: ${option?.label ?? key}`;
+                      })
+                      .join(' / ')}
+                  />
+                </ListItem>
+              ))}
+            </List>
+          </AccordionDetails>
+        </Accordion>
+
+        <Box sx={{ mt: 3, textAlign: 'right' }}>
+          <Button variant="contained" onClick={onProceed}>
+            結果を見る
+          </Button>
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReviewStep;
@@ -8,25 +8,32 @@ import type { ScenarioQuestion, ScenarioOption } from '../types';
 interface ScenarioStepProps {
   question: ScenarioQuestion;
   scenarioAnswers: Record<string, { rankedOptions: string[] }>;
+  // 並び替え途中で保存されていた順位（回答済みの順位より優先する）
+  draftRanking?: string[];
   scenarioIndex: number;
   scenarioOrderLength: number;
   onAnswer: (question: ScenarioQuestion, rankedOptions: string[]) => void;
+  onRankingChange: (question: ScenarioQuestion, rankedOptions: string[]) => void;
   onProceed: () => void;
+  onBack: () => void;
 }
 
 const ScenarioStep: React.FC<ScenarioStepProps> = ({
   question,
   scenarioAnswers,
+  draftRanking,
   scenarioIndex,
   scenarioOrderLength,
   onAnswer,
+  onRankingChange,
   onProceed,
+  onBack,
 }) => {
   const progress = Math.round(((scenarioIndex + 1) / scenarioOrderLength) * 100);
   const [rankedOptions, setRankedOptions] = useState<ScenarioOption[]>(question.options);
 
   useEffect(() => {
-    const previousRanking = scenarioAnswers[question.id]?.rankedOptions;
+    const previousRanking = draftRanking ?? scenarioAnswers[question.id]?.rankedOptions;
     if (previousRanking) {
       const sortedOptions = [...question.options].sort((a, b) => {
         return previousRanking.indexOf(a.key) - previousRanking.indexOf(b.key);
@@ -35,7 +42,7 @@ const ScenarioStep: React.FC<ScenarioStepProps> = ({
     } else {
       setRankedOptions(question.options);
     }
-  }, [question, scenarioAnswers]);
+  }, [question, scenarioAnswers, draftRanking]);
 
   const moveOption = (index: number, direction: 'up' | 'down') => {
     const newRankedOptions = [...rankedOptions];
@@ -46,6 +53,7 @@ const ScenarioStep: React.FC<ScenarioStepProps> = ({
     newRankedOptions.splice(targetIndex, 0, movedOption);
 
     setRankedOptions(newRankedOptions);
+    onRankingChange(question, newRankedOptions.map(opt => opt.key));
   };
 
   const handleProceed = () => {
@@ -87,7 +95,10 @@ const ScenarioStep: React.FC<ScenarioStepProps> = ({
             </Grid>
           ))}
         </Grid>
-        <Box sx={{ mt: 3, textAlign: 'right' }}>
+        <Box sx={{ mt: 3, display: 'flex', justifyContent: 'space-between' }}>
+          <Button variant="text" onClick={onBack}>
+            戻る
+          </Button>
           <Button
             variant="contained"
             onClick={handleProceed}
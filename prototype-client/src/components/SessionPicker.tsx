@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemText,
+  TextField,
+  Typography,
+} from '@mui/material';
+import LockIcon from '@mui/icons-material/Lock';
+import type { SessionSummary } from '../sessions';
+
+interface SessionPickerProps {
+  sessions: SessionSummary[];
+  // PIN が一致しなければ false を返す
+  onResume: (id: string, pin: string) => Promise<boolean>;
+  onDelete: (id: string, pin: string) => Promise<boolean>;
+}
+
+type PendingAction = { session: SessionSummary; action: 'resume' | 'delete' };
+
+const SessionPicker: React.FC<SessionPickerProps> = ({ sessions, onResume, onDelete }) => {
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [pin, setPin] = useState('');
+  const [pinError, setPinError] = useState(false);
+
+  const open = (session: SessionSummary, action: PendingAction['action']) => {
+    setPin('');
+    setPinError(false);
+    if (action === 'resume' && !session.pinHash) {
+      void onResume(session.id, '');
+      return;
+    }
+    setPending({ session, action });
+  };
+
+  const confirm = async () => {
+    if (!pending) return;
+    const run = pending.action === 'resume' ? onResume : onDelete;
+    if (await run(pending.session.id, pin)) {
+      setPending(null);
+    } else {
+      setPinError(true);
+    }
+  };
+
+  if (sessions.length === 0) return null;
+
+  return (
+    <Box sx={{ mb: 3 }}>
+      <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
+        この端末に保存されている回答
+      </Typography>
+      <Typography variant="body2" color="text.secondary">
+        自分の名前を選んで続きから再開できます。初めての人は下の欄に入力して始めてください。
+      </Typography>
+      <List dense>
+        {sessions.map((session) => (
+          <ListItem
+            key={session.id}
+            divider
+            secondaryAction={
+              <Box sx={{ display: 'flex', gap: 1 }}>
+                <Button size="small" variant="outlined" onClick={() => open(session, 'resume')}>
+                  再開
+                </Button>
+                <Button size="small" color="error" onClick={() => open(session, 'delete')}>
+                  削除
+                </Button>
+              </Box>
+            }
+          >
+            <ListItemText
+              primary={
+                <Box component="span" sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                  {session.nickname || '（ニックネーム未入力）'}
+                  {session.pinHash && <LockIcon fontSize="inherit" color="action" aria-label="PIN設定済み" />}
+                </Box>
+              }
+              secondary={`${session.grade || '学年未入力'} ・ 最終更新: ${new Date(session.updatedAt).toLocaleString()}`}
+            />
+          </ListItem>
+        ))}
+      </List>
+
+      <Dialog open={pending !== null} onClose={() => setPending(null)}>
+        <DialogTitle>
+          {pending?.action === 'delete' ? `${pending.session.nickname} さんの回答を削除` : `${pending?.session.nickname} さんの回答を再開`}
+        </DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            {pending?.action === 'delete'
+              ? '削除した回答は元に戻せません。'
+              : 'この回答にはPINが設定されています。'}
+            {pending?.session.pinHash && 'PINを入力してください。'}
+          </DialogContentText>
+          {pending?.session.pinHash && (
+            <TextField
+              autoFocus
+              fullWidth
+              margin="dense"
+              type="password"
+              label="PIN"
+              value={pin}
+              error={pinError}
+              helperText={pinError ? 'PINが違います' : undefined}
+              onChange={(e) => {
+                setPin(e.target.value);
+                setPinError(false);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') void confirm();
+              }}
+              slotProps={{ htmlInput: { inputMode: 'numeric' } }}
+            />
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPending(null)}>キャンセル</Button>
+          <Button
+            variant="contained"
+            color={pending?.action === 'delete' ? 'error' : 'primary'}
+            onClick={() => void confirm()}
+          >
+            {pending?.action === 'delete' ? '削除する' : '再開する'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default SessionPicker;
@@ -0,0 +1,129 @@
+import React, { useMemo } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import CustomRadarChart from './RadarChart';
+import type { RadarSeries } from './RadarChart';
+import { SIGNIFICANT_SCORE_CHANGE, compareRankings, sortByGeneratedAt } from '../compare';
+import type { SnapshotSummary } from '../compare';
+
+interface SnapshotComparisonProps {
+  axisAverage: Record<string, number>;
+  categoryScore: [string, number][];
+  snapshots: SnapshotSummary[];
+  questionBankVersion?: string;
+  onClear: () => void;
+}
+
+const SERIES_COLORS = ['#1d4ed8', '#f97316', '#16a34a', '#9333ea', '#db2777', '#0891b2'];
+const TOP_ROWS = 10;
+
+const formatDate = (value: string) => {
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? '' : new Date(time).toLocaleDateString();
+};
+
+const SnapshotComparison: React.FC<SnapshotComparisonProps> = ({
+  axisAverage,
+  categoryScore,
+  snapshots,
+  questionBankVersion,
+  onClear,
+}) => {
+  const ordered = useMemo(() => sortByGeneratedAt(snapshots), [snapshots]);
+  const changes = useMemo(() => compareRankings(categoryScore, ordered), [categoryScore, ordered]);
+  const rows = useMemo(
+    () => changes.filter((change) => change.currentRank <= TOP_ROWS || change.significant),
+    [changes],
+  );
+
+  const series: RadarSeries[] = [
+    { key: 'current', name: '今回', color: SERIES_COLORS[0] },
+    ...ordered.map((snapshot, index) => ({
+      key: `snapshot${index}`,
+      name: formatDate(snapshot.generatedAt) || snapshot.label,
+      color: SERIES_COLORS[(index + 1) % SERIES_COLORS.length],
+    })),
+  ];
+  const radarData = Object.entries(axisAverage).map(([axis, value]) => ({
+    axis,
+    current: value,
+    ...Object.fromEntries(ordered.map((snapshot, index) => [`snapshot${index}`, snapshot.axisAverage[axis]])),
+  }));
+  const mismatched = ordered.filter((snapshot) => snapshot.questionBankVersion !== questionBankVersion);
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+        <Typography variant="body2" color="text.secondary">
+          読み込んだ{ordered.length}件の結果を現在の設問で再採点し、今回の結果と重ねて表示しています。
+        </Typography>
+        <Button size="small" onClick={onClear}>
+          比較をクリア
+        </Button>
+      </Box>
+      {mismatched.length > 0 && (
+        <Alert severity="warning" sx={{ mt: 2 }}>
+          {mismatched.map((snapshot) => snapshot.label).join('、')} は別のバージョンの設問で回答されているため、
+          回答していない設問の分だけスコアが低く出る場合があります。
+        </Alert>
+      )}
+
+      <CustomRadarChart data={radarData} series={series} />
+
+      <Typography variant="subtitle2" sx={{ mt: 2 }}>
+        カテゴリ順位の変化（直近の結果との比較、±{SIGNIFICANT_SCORE_CHANGE}以上の変化を強調）
+      </Typography>
+      <Table size="small" sx={{ mt: 1 }}>
+        <TableHead>
+          <TableRow>
+            <TableCell>カテゴリ</TableCell>
+            <TableCell align="right">今回</TableCell>
+            {ordered.length > 1 && <TableCell>推移</TableCell>}
+            <TableCell align="right">前回</TableCell>
+            <TableCell align="right">変化</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {rows.map((change) => (
+            <TableRow key={change.category} selected={change.significant}>
+              <TableCell>{change.category}</TableCell>
+              <TableCell align="right">
+                {change.current}（{change.currentRank}位）
+              </TableCell>
+              {ordered.length > 1 && (
+                <TableCell>{change.history.map((score) => score ?? '—').join(' → ')}</TableCell>
+              )}
+              <TableCell align="right">
+                {change.previous === undefined ? '—' : `${change.previous}（${change.previousRank}位）`}
+              </TableCell>
+              <TableCell align="right">
+                {change.delta === undefined ? (
+                  '—'
+                ) : (
+                  <Chip
+                    size="small"
+                    label={`${change.delta > 0 ? '+' : ''}${change.delta}`}
+                    color={change.significant ? (change.delta > 0 ? 'success' : 'error') : 'default'}
+                    variant={change.significant ? 'filled' : 'outlined'}
+                  />
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Box>
+  );
+};
+
+export default SnapshotComparison;
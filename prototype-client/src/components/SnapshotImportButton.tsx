@@ -0,0 +1,36 @@
+import React from 'react';
+import { Button } from '@mui/material';
+import type { ButtonProps } from '@mui/material';
+
+interface SnapshotImportButtonProps {
+  onImport: (files: File[]) => void;
+  color?: ButtonProps['color'];
+  variant?: ButtonProps['variant'];
+  label?: string;
+}
+
+const SnapshotImportButton: React.FC<SnapshotImportButtonProps> = ({
+  onImport,
+  color,
+  variant,
+  label = 'スナップショットを読み込む',
+}) => {
+  return (
+    <Button component="label" color={color} variant={variant}>
+      {label}
+      <input
+        hidden
+        type="file"
+        accept="application/json,.json"
+        multiple
+        onChange={(e) => {
+          const files = Array.from(e.target.files ?? []);
+          e.target.value = '';
+          if (files.length > 0) onImport(files);
+        }}
+      />
+    </Button>
+  );
+};
+
+export default SnapshotImportButton;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Chip, CircularProgress, Tooltip } from '@mui/material';
+import { STABILITY_ITERATIONS, STABILITY_TOP_COUNT } from '../stability';
+import type { CategoryStability, StabilityLevel } from '../stability';
+
+interface StabilityBadgeProps {
+  stability: CategoryStability | undefined;
+  // 安定性分析の計算中
+  pending?: boolean;
+}
+
+const STABILITY_LABELS: Record<StabilityLevel, { label: string; color: 'success' | 'warning' | 'default' }> = {
+  stable: { label: '安定', color: 'success' },
+  borderline: { label: '境界', color: 'warning' },
+  unstable: { label: '暫定', color: 'default' },
+};
+
+const StabilityBadge: React.FC<StabilityBadgeProps> = ({ stability, pending = false }) => {
+  if (pending) {
+    return <Chip label="判定中" size="small" variant="outlined" icon={<CircularProgress size={12} />} />;
+  }
+  if (!stability) return null;
+  const { label, color } = STABILITY_LABELS[stability.level];
+
+  return (
+    <Tooltip
+      arrow
+      title={`回答を揺らして${STABILITY_ITERATIONS}回再計算したうち${Math.round(
+        stability.topRate * 100,
+      )}%で上位${STABILITY_TOP_COUNT}位以内（スコアの幅 ${stability.low}〜${stability.high}）`}
+    >
+      <Chip label={label} color={color} size="small" variant="outlined" />
+    </Tooltip>
+  );
+};
+
+export default StabilityBadge;
@@ -0,0 +1,39 @@
+import React, { useState } from 'react';
+import { Alert, AlertTitle, Button, Collapse, List, ListItem, ListItemText } from '@mui/material';
+import type { ValidationIssue } from '../validation';
+
+interface ValidationPanelProps {
+  issues: ValidationIssue[];
+}
+
+// 開発時のみ表示する参照データの警告一覧
+const ValidationPanel: React.FC<ValidationPanelProps> = ({ issues }) => {
+  const [open, setOpen] = useState(false);
+
+  if (issues.length === 0) return null;
+
+  return (
+    <Alert
+      severity="warning"
+      sx={{ mb: 3 }}
+      action={
+        <Button color="inherit" size="small" onClick={() => setOpen((prev) => !prev)}>
+          {open ? '閉じる' : '詳細'}
+        </Button>
+      }
+    >
+      <AlertTitle>参照データの警告（{issues.length}件）</AlertTitle>
+      <Collapse in={open}>
+        <List dense disablePadding>
+          {issues.map((issue, index) => (
+            <ListItem key={`${issue.source}-${index}`} disableGutters>
+              <ListItemText primary={issue.message} secondary={issue.source} />
+            </ListItem>
+          ))}
+        </List>
+      </Collapse>
+    </Alert>
+  );
+};
+
+export default ValidationPanel;
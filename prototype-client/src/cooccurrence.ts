@@ -0,0 +1,79 @@
+import type { CategoryScore, ItemContribution } from './scoring'
+
+// 回答で得点したカテゴリ同士の共起行列。
+// 同じ設問で両方のカテゴリが得点した場合、小さい方の獲得点をそのペアに加算する。
+
+export const COOCCURRENCE_CATEGORY_LIMIT = 12
+
+export interface CooccurrenceMatrix {
+  categories: string[]
+  // 0〜1 に正規化した値。対角成分は 0
+  values: number[][]
+  // 正規化前の値と、そのペアに寄与した設問数
+  raw: number[][]
+  itemCounts: number[][]
+}
+
+export function buildCooccurrenceMatrix(
+  scores: CategoryScore[],
+  contributions: ItemContribution[],
+  limit = COOCCURRENCE_CATEGORY_LIMIT,
+): CooccurrenceMatrix {
+  const categories = [...scores]
+    .sort((a, b) => b.hybrid - a.hybrid)
+    .slice(0, limit)
+    .map((score) => score.category)
+  const index = new Map(categories.map((category, i) => [category, i]))
+  const size = categories.length
+  const raw = Array.from({ length: size }, () => new Array<number>(size).fill(0))
+  const itemCounts = Array.from({ length: size }, () => new Array<number>(size).fill(0))
+
+  const byQuestion = new Map<string, Map<number, number>>()
+  contributions.forEach((c) => {
+    const i = index.get(c.category)
+    if (i === undefined || c.earned <= 0) return
+    const earned = byQuestion.get(c.questionId) ?? new Map<number, number>()
+    earned.set(i, (earned.get(i) ?? 0) + c.earned)
+    byQuestion.set(c.questionId, earned)
+  })
+
+  byQuestion.forEach((earned) => {
+    const entries = Array.from(earned.entries())
+    for (let a = 0; a < entries.length; a++) {
+      for (let b = a + 1; b < entries.length; b++) {
+        const [i, pi] = entries[a]
+        const [j, pj] = entries[b]
+        const value = Math.min(pi, pj)
+        raw[i][j] += value
+        raw[j][i] += value
+        itemCounts[i][j] += 1
+        itemCounts[j][i] += 1
+      }
+    }
+  })
+
+  const peak = Math.max(0, ...raw.flat())
+  const values = raw.map((row) => row.map((value) => (peak > 0 ? value / peak : 0)))
+  return { categories, values, raw, itemCounts }
+}
+
+// 平均連結法の階層クラスタリングで、つながりの強いカテゴリが隣り合う並び順を返す
+export function clusterOrder(matrix: CooccurrenceMatrix): number[] {
+  let clusters = matrix.categories.map((_, i) => [i])
+  const linkage = (a: number[], b: number[]) =>
+    a.reduce((acc, i) => acc + b.reduce((sum, j) => sum + matrix.values[i][j], 0), 0) / (a.length * b.length)
+
+  while (clusters.length > 1) {
+    let best = { a: 0, b: 1, value: -1 }
+    for (let a = 0; a < clusters.length; a++) {
+      for (let b = a + 1; b < clusters.length; b++) {
+        const value = linkage(clusters[a], clusters[b])
+        if (value > best.value) best = { a, b, value }
+      }
+    }
+    const merged = [...clusters[best.a], ...clusters[best.b]]
+    clusters = clusters.filter((_, i) => i !== best.a && i !== best.b)
+    clusters.splice(best.a, 0, merged)
+  }
+  return clusters[0] ?? []
+}
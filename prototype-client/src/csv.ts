@@ -0,0 +1,81 @@
+import type { AnswerSet, QuestionBank } from './types'
+import type { ScoreResult } from './scoring'
+import { APTITUDE_AXES } from './scoring'
+
+// 表計算ソフト向けのCSV出力。Excel が UTF-8 と判別できるよう BOM を付ける。
+
+const BOM = '\uFEFF'
+
+type Cell = string | number | undefined
+
+// Excel が数式として実行しないよう、= + - @ やタブ・改行で始まる文字列は ' を前に付ける。
+// 数値（負のzスコアなど）はそのまま出す
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+function escapeCell(value: Cell): string {
+  if (value === undefined) return ''
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(rows: Cell[][]): string {
+  return BOM + rows.map((row) => row.map(escapeCell).join(',')).join('\r\n') + '\r\n'
+}
+
+export function buildAnswerCsv(bank: QuestionBank, answers: AnswerSet): string {
+  const rows: Cell[][] = [['id', 'type', 'prompt', 'answer', 'confidence', 'responseTimeMs']]
+
+  bank.likert.forEach((question) => {
+    const answer = answers.likert[question.id]
+    if (!answer) return
+    rows.push([question.id, 'likert', question.prompt, answer.value, undefined, answer.responseTimeMs])
+  })
+
+  bank.forcedChoice.forEach((question) => {
+    const answer = answers.forced[question.id]
+    if (!answer) return
+    const option = question.options.find((o) => o.key === answer.optionKey)
+    rows.push([
+      question.id,
+      'forced_choice',
+      question.prompt,
+      option ? `${option.key}: ${option.label}` : 'どちらでもない',
+      option ? answer.confidence : undefined,
+      answer.responseTimeMs,
+    ])
+  })
+
+  bank.scenario.forEach((question) => {
+    const answer = answers.scenario[question.id]
+    if (!answer) return
+    const ranking = answer.rankedOptions
+      .map((key, rank) => `${rank + 1}位 ${question.options.find((o) => o.key === key)?.label ?? key}`)
+      .join(' / ')
+    rows.push([question.id, 'scenario', question.title, ranking, undefined, answer.responseTimeMs])
+  })
+
+  return toCsv(rows)
+}
+
+export function buildScoreCsv(result: ScoreResult): string {
+  const rows: Cell[][] = [['type', 'axis', 'name', 'score', 'raw', 'max', 'normalized', 'zScore']]
+  const round = (value: number) => Number(value.toFixed(2))
+
+  result.categories.forEach((score) => {
+    rows.push([
+      APTITUDE_AXES.includes(score.axis) ? 'aptitude' : 'category',
+      score.axis,
+      score.category,
+      score.hybrid,
+      round(score.raw),
+      round(score.max),
+      score.normalized,
+      score.zScore,
+    ])
+  })
+  result.tags.forEach(([name, tag]) => {
+    rows.push(['tag', undefined, name, round(tag.score)])
+  })
+
+  return toCsv(rows)
+}
@@ -0,0 +1,291 @@
+import type {
+  AnswerSet,
+  ConsentState,
+  ForcedAnswerState,
+  LikertAnswerState,
+  ProfilePayload,
+  QuestionBank,
+  ScenarioAnswerState,
+  StepId,
+  SubmissionReceipt,
+} from './types'
+import { checkAnswerEntries } from './snapshot'
+import { removeSession, upsertSession } from './sessions'
+import { createLocalId, isRecord, migrateForcedAnswers, snapConfidence } from './utils'
+
+// 回答途中の下書きをセッションごとに localStorage に保存する。
+// 保存形式を変えるときは DRAFT_VERSION を上げ、DRAFT_MIGRATIONS に前のバージョンからの変換を追加する。
+
+const DRAFT_STORAGE_PREFIX = 'major-diagnosis-draft:'
+// セッション導入前、端末に1件だけ保存していたころの保存先（新しい順）
+const LEGACY_STORAGE_KEYS = ['major-diagnosis-draft', 'major-diagnosis-beta-v1']
+export const DRAFT_VERSION = 4
+
+// 回答画面のどこにいたか。再開時にその設問から続ける
+export interface DraftPosition {
+  likertId: string | null
+  forcedIndex: number
+  scenarioIndex: number
+  // 確認画面から設問を開き直している途中か
+  returnToReview: boolean
+}
+
+export interface Draft {
+  draftVersion: number
+  questionBankVersion?: string
+  profile: ProfilePayload
+  likertAnswers: Record<string, LikertAnswerState>
+  forcedAnswers: Record<string, ForcedAnswerState>
+  scenarioAnswers: Record<string, ScenarioAnswerState>
+  notes: string
+  step: StepId
+  position: DraftPosition
+  // 「次へ」を押す前の並び替え途中のシナリオ順位
+  scenarioDrafts: Record<string, string[]>
+  // 同意画面で選んだ内容。まだ選んでいなければ null
+  consent: ConsentState | null
+  // 結果を送信したときに発行する識別子と削除用コード、サーバーの受付情報
+  submissionId?: string
+  deletionToken?: string
+  receipt?: SubmissionReceipt
+  savedAt: string
+}
+
+export type DraftContent = Omit<Draft, 'draftVersion' | 'savedAt'>
+
+export interface ReconciledDraft {
+  answers: AnswerSet
+  position: DraftPosition
+  scenarioDrafts: Record<string, string[]>
+  // 学習者に伝える調整内容。空なら下書きをそのまま復元できた
+  adjustments: string[]
+}
+
+type Loose = Record<string, unknown>
+
+const STEP_IDS: StepId[] = ['profile', 'consent', 'likert', 'forced-choice', 'scenario', 'review', 'result']
+
+export const INITIAL_POSITION: DraftPosition = { likertId: null, forcedIndex: 0, scenarioIndex: 0, returnToReview: false }
+
+function isIndex(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0
+}
+
+function isPosition(value: unknown): value is DraftPosition {
+  return (
+    isRecord(value) &&
+    (value.likertId === null || typeof value.likertId === 'string') &&
+    isIndex(value.forcedIndex) &&
+    isIndex(value.scenarioIndex) &&
+    typeof value.returnToReview === 'boolean'
+  )
+}
+
+function isConsent(value: unknown): value is ConsentState {
+  return (
+    isRecord(value) &&
+    typeof value.research === 'boolean' &&
+    typeof value.contact === 'boolean' &&
+    typeof value.respondentId === 'string' &&
+    typeof value.decidedAt === 'string'
+  )
+}
+
+function isReceipt(value: unknown): value is SubmissionReceipt {
+  return (
+    isRecord(value) &&
+    typeof value.submissionId === 'string' &&
+    typeof value.fileName === 'string' &&
+    typeof value.submittedAt === 'string' &&
+    typeof value.answersFingerprint === 'string'
+  )
+}
+
+// キーは変換元のバージョン
+const DRAFT_MIGRATIONS: Record<number, (raw: Loose) => Loose> = {
+  // v1 → v2: 設問バンクのバージョンと保存日時を持たず、forcedAnswers が `${questionId}|${optionKey}` キーの場合がある
+  1: (raw) => ({
+    ...raw,
+    forcedAnswers: isRecord(raw.forcedAnswers)
+      ? migrateForcedAnswers(raw.forcedAnswers as Record<string, ForcedAnswerState>)
+      : raw.forcedAnswers,
+    savedAt: '',
+  }),
+  // v2 → v3: 画面内の位置と並び替え途中のシナリオ順位を持たない
+  2: (raw) => ({
+    ...raw,
+    position: INITIAL_POSITION,
+    scenarioDrafts: {},
+  }),
+  // v3 → v4: 同意画面がなかった
+  3: (raw) => ({
+    ...raw,
+    consent: null,
+  }),
+}
+
+// JSON.parse 済みの値を最新の形式に移行してから検証する。問題があれば内容を列挙した Error を投げる
+export function parseDraft(raw: unknown): Draft {
+  if (!isRecord(raw)) {
+    throw new Error('下書きの形式ではありません')
+  }
+  let version = raw.draftVersion ?? 1
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1 || version > DRAFT_VERSION) {
+    throw new Error(`未対応の draftVersion です（${String(version)}）`)
+  }
+  let migrated: Loose = raw
+  while (version < DRAFT_VERSION) {
+    migrated = DRAFT_MIGRATIONS[version](migrated)
+    version += 1
+  }
+
+  const problems: string[] = []
+  if (!isRecord(migrated.profile)) problems.push('profile がありません')
+  checkAnswerEntries(migrated, problems)
+  if (typeof migrated.notes !== 'string') problems.push('notes が文字列ではありません')
+  if (!STEP_IDS.includes(migrated.step as StepId)) problems.push(`step が不正です（${String(migrated.step)}）`)
+  if (!isPosition(migrated.position)) problems.push('position の形式が不正です')
+  if (
+    !isRecord(migrated.scenarioDrafts) ||
+    !Object.values(migrated.scenarioDrafts).every(
+      (keys) => Array.isArray(keys) && keys.every((key) => typeof key === 'string'),
+    )
+  ) {
+    problems.push('scenarioDrafts の形式が不正です')
+  }
+  if (migrated.consent !== null && !isConsent(migrated.consent)) problems.push('consent の形式が不正です')
+  if (migrated.submissionId !== undefined && typeof migrated.submissionId !== 'string') {
+    problems.push('submissionId が文字列ではありません')
+  }
+  if (migrated.deletionToken !== undefined && typeof migrated.deletionToken !== 'string') {
+    problems.push('deletionToken が文字列ではありません')
+  }
+  if (migrated.receipt !== undefined && !isReceipt(migrated.receipt)) problems.push('receipt の形式が不正です')
+  if (problems.length > 0) {
+    throw new Error(problems.join(' / '))
+  }
+
+  return {
+    draftVersion: DRAFT_VERSION,
+    questionBankVersion: typeof migrated.questionBankVersion === 'string' ? migrated.questionBankVersion : undefined,
+    profile: migrated.profile as ProfilePayload,
+    likertAnswers: migrated.likertAnswers as Record<string, LikertAnswerState>,
+    forcedAnswers: migrated.forcedAnswers as Record<string, ForcedAnswerState>,
+    scenarioAnswers: migrated.scenarioAnswers as Record<string, ScenarioAnswerState>,
+    notes: migrated.notes as string,
+    step: migrated.step as StepId,
+    position: migrated.position as DraftPosition,
+    scenarioDrafts: migrated.scenarioDrafts as Record<string, string[]>,
+    consent: migrated.consent as ConsentState | null,
+    submissionId: migrated.submissionId as string | undefined,
+    deletionToken: migrated.deletionToken as string | undefined,
+    receipt: migrated.receipt as SubmissionReceipt | undefined,
+    savedAt: typeof migrated.savedAt === 'string' ? migrated.savedAt : '',
+  }
+}
+
+export function loadDraft(sessionId: string): Draft | null {
+  const raw = localStorage.getItem(DRAFT_STORAGE_PREFIX + sessionId)
+  if (!raw) return null
+  return parseDraft(JSON.parse(raw))
+}
+
+export function saveDraft(sessionId: string, content: DraftContent) {
+  const draft: Draft = { ...content, draftVersion: DRAFT_VERSION, savedAt: new Date().toISOString() }
+  localStorage.setItem(DRAFT_STORAGE_PREFIX + sessionId, JSON.stringify(draft))
+  upsertSession(sessionId, {
+    nickname: content.profile.nickname,
+    grade: content.profile.grade,
+    updatedAt: draft.savedAt,
+  })
+}
+
+// 利用中でないセッションの送信が送信待ちから完了したときに、受付情報だけを書き込む
+export function attachReceipt(sessionId: string, receipt: SubmissionReceipt) {
+  const draft = loadDraft(sessionId)
+  if (!draft || draft.submissionId !== receipt.submissionId) return
+  localStorage.setItem(DRAFT_STORAGE_PREFIX + sessionId, JSON.stringify({ ...draft, receipt }))
+}
+
+export function deleteDraft(sessionId: string) {
+  localStorage.removeItem(DRAFT_STORAGE_PREFIX + sessionId)
+  removeSession(sessionId)
+}
+
+// 端末に1件だけ保存されていた旧形式の下書きを、新しいセッションとして取り込む。
+// 読み込めない場合は破棄したうえで Error を投げる
+export function migrateLegacyDraft() {
+  const key = LEGACY_STORAGE_KEYS.find((candidate) => localStorage.getItem(candidate) !== null)
+  if (!key) return
+  const raw = localStorage.getItem(key) as string
+  LEGACY_STORAGE_KEYS.forEach((candidate) => localStorage.removeItem(candidate))
+  const draft = parseDraft(JSON.parse(raw))
+  const sessionId = createLocalId()
+  localStorage.setItem(DRAFT_STORAGE_PREFIX + sessionId, JSON.stringify(draft))
+  upsertSession(sessionId, {
+    nickname: draft.profile.nickname,
+    grade: draft.profile.grade,
+    updatedAt: draft.savedAt || new Date().toISOString(),
+  })
+}
+
+// 下書きの回答を現在の設問バンクに合わせる。
+// 設問が削除された回答や、選択肢が変わって成り立たなくなった回答は破棄する。
+export function reconcileDraft(draft: Draft, bank: QuestionBank): ReconciledDraft {
+  const levels = bank.forcedChoiceMetadata.confidenceLevels
+  const likertIds = new Set(bank.likert.map((q) => q.id))
+  const forcedById = new Map(bank.forcedChoice.map((q) => [q.id, q]))
+  const scenarioById = new Map(bank.scenario.map((q) => [q.id, q]))
+
+  const likert = Object.fromEntries(Object.entries(draft.likertAnswers).filter(([id]) => likertIds.has(id)))
+  const forced = Object.fromEntries(
+    Object.entries(draft.forcedAnswers)
+      .filter(([id, answer]) => {
+        const question = forcedById.get(id)
+        return (
+          question !== undefined &&
+          (answer.optionKey === 'SKIP' || question.options.some((o) => o.key === answer.optionKey))
+        )
+      })
+      .map(([id, answer]) => [
+        id,
+        answer.optionKey === 'SKIP' ? answer : { ...answer, confidence: snapConfidence(answer.confidence, levels) },
+      ]),
+  )
+  const isFullRanking = (id: string, ranking: string[]) => {
+    const question = scenarioById.get(id)
+    if (!question) return false
+    const keys = new Set(ranking)
+    return keys.size === question.options.length && question.options.every((o) => keys.has(o.key))
+  }
+  const scenario = Object.fromEntries(
+    Object.entries(draft.scenarioAnswers).filter(([id, answer]) => isFullRanking(id, answer.rankedOptions)),
+  )
+  const scenarioDrafts = Object.fromEntries(
+    Object.entries(draft.scenarioDrafts).filter(([id, ranking]) => isFullRanking(id, ranking)),
+  )
+  // 設問が減っていたら範囲内に収める。表示中だった Likert 設問がなくなっていたら次の設問を選び直す
+  const position: DraftPosition = {
+    likertId: draft.position.likertId && likertIds.has(draft.position.likertId) ? draft.position.likertId : null,
+    forcedIndex: Math.min(draft.position.forcedIndex, Math.max(0, bank.forcedChoice.length - 1)),
+    scenarioIndex: Math.min(draft.position.scenarioIndex, Math.max(0, bank.scenario.length - 1)),
+    returnToReview: draft.position.returnToReview,
+  }
+
+  const adjustments: string[] = []
+  if (draft.questionBankVersion && bank.version && draft.questionBankVersion !== bank.version) {
+    adjustments.push(`設問が更新されています（${draft.questionBankVersion} → ${bank.version}）`)
+  }
+  const dropped: [string, number][] = [
+    ['Likert設問', Object.keys(draft.likertAnswers).length - Object.keys(likert).length],
+    ['二択設問', Object.keys(draft.forcedAnswers).length - Object.keys(forced).length],
+    ['シナリオ設問', Object.keys(draft.scenarioAnswers).length - Object.keys(scenario).length],
+  ]
+  dropped
+    .filter(([, count]) => count > 0)
+    .forEach(([label, count]) => {
+      adjustments.push(`${label}の回答${count}件は現在の設問と合わないため取り除きました`)
+    })
+
+  return { answers: { likert, forced, scenario }, position, scenarioDrafts, adjustments }
+}
@@ -0,0 +1,100 @@
+import type { AnswerSet, QuestionBank } from './types'
+import type { ItemContribution } from './scoring'
+
+// 結果の根拠表示。カテゴリ（または分野プロファイルの重み付き集合）に対し、
+// どの回答が何点をもたらしたかを設問単位で集計する。
+
+export const EVIDENCE_ITEM_LIMIT = 8
+
+export interface EvidenceTarget {
+  kind: 'category' | 'aptitude' | 'field' | 'career'
+  name: string
+}
+
+export const EVIDENCE_KIND_LABELS: Record<EvidenceTarget['kind'], string> = {
+  category: 'カテゴリ',
+  aptitude: '資質',
+  field: '興味領域',
+  career: '職業',
+}
+
+export interface EvidenceItem {
+  questionId: string
+  kind: ItemContribution['kind']
+  prompt: string
+  answer: string
+  weight: number
+  points: number
+  share: number
+}
+
+export interface EvidenceTrace {
+  total: number
+  items: EvidenceItem[]
+}
+
+function describeAnswer(bank: QuestionBank, answers: AnswerSet, c: ItemContribution): { prompt: string; answer: string } {
+  if (c.kind === 'likert') {
+    const question = bank.likert.find((q) => q.id === c.questionId)
+    const answer = answers.likert[c.questionId]
+    return {
+      prompt: question?.prompt ?? c.questionId,
+      answer: answer ? `${answer.value} / 7${question?.polarity === 'reverse' ? '（逆転項目）' : ''}` : '',
+    }
+  }
+  if (c.kind === 'forced') {
+    const question = bank.forcedChoice.find((q) => q.id === c.questionId)
+    const answer = answers.forced[c.questionId]
+    const option = question?.options.find((o) => o.key === answer?.optionKey)
+    const level = bank.forcedChoiceMetadata.confidenceLevels.find((l) => l.multiplier === answer?.confidence)
+    return {
+      prompt: question?.prompt ?? c.questionId,
+      answer: option ? `${option.key}: ${option.label}（${level?.label ?? answer?.confidence}）` : '',
+    }
+  }
+  const question = bank.scenario.find((q) => q.id === c.questionId)
+  const answer = answers.scenario[c.questionId]
+  return {
+    prompt: question?.title ?? c.questionId,
+    answer: (answer?.rankedOptions ?? [])
+      .map((key, rank) => `${rank + 1}位: ${question?.options.find((o) => o.key === key)?.label ?? key}`)
+      .join(' / '),
+  }
+}
+
+export function traceEvidence(
+  bank: QuestionBank,
+  answers: AnswerSet,
+  contributions: ItemContribution[],
+  weights: Record<string, number>,
+  limit = EVIDENCE_ITEM_LIMIT,
+): EvidenceTrace {
+  const byQuestion = new Map<string, { contribution: ItemContribution; weight: number; points: number }>()
+  contributions.forEach((c) => {
+    const targetWeight = weights[c.category]
+    if (!targetWeight || c.earned <= 0) return
+    const entry = byQuestion.get(c.questionId)
+    const points = c.earned * targetWeight
+    if (entry) {
+      entry.points += points
+      entry.weight = Math.max(entry.weight, c.weight * targetWeight)
+    } else {
+      byQuestion.set(c.questionId, { contribution: c, weight: c.weight * targetWeight, points })
+    }
+  })
+
+  const total = Array.from(byQuestion.values()).reduce((acc, entry) => acc + entry.points, 0)
+  const items = Array.from(byQuestion.values())
+    .sort((a, b) => b.points - a.points)
+    .slice(0, limit)
+    .map(({ contribution, weight, points }) => ({
+      questionId: contribution.questionId,
+      kind: contribution.kind,
+      ...describeAnswer(bank, answers, contribution),
+      weight: Number(weight.toFixed(2)),
+      points: Number(points.toFixed(2)),
+      share: total > 0 ? points / total : 0,
+    }))
+
+  return { total: Number(total.toFixed(2)), items }
+}
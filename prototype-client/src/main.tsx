@@ -7,6 +7,13 @@ import theme from './theme';
 import App from './App.tsx';
 import './index.css';
 
+// 本番ビルドではアプリ本体をキャッシュし、オフラインでも開けるようにする
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((err) => console.warn('Failed to register service worker', err));
+  });
+}
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <ThemeProvider theme={theme}>
@@ -0,0 +1,124 @@
+import type { ResponsePayload } from './types'
+import { ApiError } from './api'
+import { createLocalId, isRecord } from './utils'
+
+// 通信できずに送れなかった結果の送信待ち。端末内に保存し、接続が戻ったら古い順に再送する。
+// サーバーに拒否された送信や、サーバーエラーが続いた送信は再送をやめ、学習者が確認して破棄するまで残す。
+
+const OUTBOX_KEY = 'major-diagnosis-outbox'
+export const OUTBOX_RETRY_INTERVAL_MS = 30_000
+export const OUTBOX_MAX_ATTEMPTS = 10
+
+export interface OutboxEntry {
+  id: string
+  // 送信したセッションと送信内容の指紋。完了時に受付情報をそのセッションの下書きへ書き込む
+  sessionId?: string
+  answersFingerprint?: string
+  payload: ResponsePayload
+  queuedAt: string
+  // サーバーまで届いて失敗した回数。通信できなかった回は数えない
+  attempts: number
+  lastError?: string
+  // 再送をやめた日時
+  failedAt?: string
+}
+
+export function listOutbox(): OutboxEntry[] {
+  try {
+    const raw: unknown = JSON.parse(localStorage.getItem(OUTBOX_KEY) ?? '[]')
+    if (!Array.isArray(raw)) return []
+    return raw.filter(
+      (entry): entry is OutboxEntry =>
+        isRecord(entry) && typeof entry.id === 'string' && isRecord(entry.payload) && typeof entry.attempts === 'number',
+    )
+  } catch (err) {
+    console.error('Failed to read outbox', err)
+    return []
+  }
+}
+
+function writeOutbox(entries: OutboxEntry[]) {
+  localStorage.setItem(OUTBOX_KEY, JSON.stringify(entries))
+}
+
+export function enqueueSubmission(
+  payload: ResponsePayload,
+  context: Pick<OutboxEntry, 'sessionId' | 'answersFingerprint'> = {},
+): OutboxEntry {
+  const entry: OutboxEntry = { id: createLocalId(), ...context, payload, queuedAt: new Date().toISOString(), attempts: 0 }
+  writeOutbox([...listOutbox(), entry])
+  return entry
+}
+
+// 削除を依頼した送信がまだ送信待ちに残っていれば取り除き、取り除いたかどうかを返す
+export function discardQueuedSubmission(submissionId: string): boolean {
+  const entries = listOutbox()
+  const remaining = entries.filter((entry) => entry.payload.submissionId !== submissionId)
+  writeOutbox(remaining)
+  return remaining.length !== entries.length
+}
+
+export function discardOutboxEntry(id: string) {
+  writeOutbox(listOutbox().filter((entry) => entry.id !== id))
+}
+
+// セッションを削除したときに、そのセッションの送信待ち（プロフィールや削除用コードを含む）も消す
+export function discardSessionEntries(sessionId: string) {
+  writeOutbox(listOutbox().filter((entry) => entry.sessionId !== sessionId))
+}
+
+export function isPendingEntry(entry: OutboxEntry): boolean {
+  return entry.failedAt === undefined
+}
+
+// fetch は通信そのものに失敗したとき TypeError を投げる
+export function isNetworkError(err: unknown): boolean {
+  return err instanceof TypeError || !navigator.onLine
+}
+
+// 4xx は同じ内容を送り直しても受け付けられない（408 と 429 は時間をおけば通る）
+function isRejected(err: unknown): boolean {
+  return err instanceof ApiError && err.status >= 400 && err.status < 500 && err.status !== 408 && err.status !== 429
+}
+
+let flushing: Promise<OutboxEntry[]> | null = null
+
+// 送信待ちを古い順に送り、再送をやめたものも含めて残った送信待ちを返す。通信できない間は途中でやめる。
+// 同時に呼ばれても二重に送らないよう、実行中の再送があればその結果を待つ
+export function flushOutbox<T>(
+  send: (payload: ResponsePayload) => Promise<T>,
+  onSent?: (entry: OutboxEntry, result: T) => void,
+): Promise<OutboxEntry[]> {
+  if (!flushing) {
+    flushing = (async () => {
+      for (const entry of listOutbox().filter(isPendingEntry)) {
+        try {
+          const result = await send(entry.payload)
+          writeOutbox(listOutbox().filter((candidate) => candidate.id !== entry.id))
+          onSent?.(entry, result)
+        } catch (err) {
+          const offline = isNetworkError(err)
+          const attempts = offline ? entry.attempts : entry.attempts + 1
+          const failed = isRejected(err) || attempts >= OUTBOX_MAX_ATTEMPTS
+          writeOutbox(
+            listOutbox().map((candidate) =>
+              candidate.id === entry.id
+                ? {
+                    ...candidate,
+                    attempts,
+                    lastError: err instanceof Error ? err.message : String(err),
+                    failedAt: failed ? new Date().toISOString() : undefined,
+                  }
+                : candidate,
+            ),
+          )
+          if (offline) break
+        }
+      }
+      return listOutbox()
+    })().finally(() => {
+      flushing = null
+    })
+  }
+  return flushing
+}
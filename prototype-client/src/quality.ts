@@ -0,0 +1,118 @@
+import type { AnswerSet, QualityFlagName, QualityFlagsPayload, QuestionBank } from './types'
+
+// docs/scoring_spec.md「3. 信頼性チェック」の回答品質フラグ
+
+export const CONSISTENCY_GAP_THRESHOLD = 3.0
+export const CONFIDENCE_RUN_LENGTH = 3
+export const SPEEDING_THRESHOLD_MS = 2000
+export const SPEEDING_RATIO = 0.2
+
+export const QUALITY_MESSAGES: Record<QualityFlagName, string> = {
+  consistency: '逆転項目と通常項目の回答に大きな食い違いがあります。',
+  confidence: '同じ選択肢を低い自信度で続けて選んでいます。',
+  speeding: '2秒未満の回答が多く、じっくり読まずに答えた可能性があります。',
+}
+
+interface TimedItem {
+  axis: string
+  responseTimeMs?: number
+}
+
+function recodeLikert(value: number, polarity: 'positive' | 'reverse'): number {
+  return polarity === 'reverse' ? 7 - value : value - 1
+}
+
+function isSpeeding(items: TimedItem[]): boolean {
+  const timed = items.filter((item) => item.responseTimeMs !== undefined)
+  if (timed.length === 0) return false
+  const fast = timed.filter((item) => (item.responseTimeMs ?? 0) < SPEEDING_THRESHOLD_MS).length
+  return fast / timed.length >= SPEEDING_RATIO
+}
+
+export function computeQualityFlags(bank: QuestionBank, answers: AnswerSet): QualityFlagsPayload {
+  const axes: Record<string, QualityFlagName[]> = {}
+  const flag = (axis: string, name: QualityFlagName) => {
+    const list = axes[axis] ?? []
+    if (!list.includes(name)) list.push(name)
+    axes[axis] = list
+  }
+
+  // 逆転項目と同じ主カテゴリの順項目の平均との差分を見る
+  bank.likert
+    .filter((q) => q.polarity === 'reverse' && answers.likert[q.id])
+    .forEach((reverse) => {
+      const positives = bank.likert
+        .filter(
+          (q) =>
+            q.polarity === 'positive' &&
+            q.primaryCategory === reverse.primaryCategory &&
+            answers.likert[q.id],
+        )
+        .map((q) => recodeLikert(answers.likert[q.id].value, q.polarity))
+      if (positives.length === 0) return
+      const mean = positives.reduce((acc, value) => acc + value, 0) / positives.length
+      const gap = Math.abs(recodeLikert(answers.likert[reverse.id].value, reverse.polarity) - mean)
+      if (gap > CONSISTENCY_GAP_THRESHOLD) {
+        flag(reverse.axis, 'consistency')
+      }
+    })
+
+  // 同じ選択肢キーを最も低い自信度で連続して選び続けている区間を検出する
+  const lowConfidence = Math.min(...bank.forcedChoiceMetadata.confidenceLevels.map((level) => level.multiplier))
+  let run: { optionKey: string; axes: string[] } | null = null
+  const flushRun = () => {
+    if (run && run.axes.length >= CONFIDENCE_RUN_LENGTH) {
+      run.axes.forEach((axis) => flag(axis, 'confidence'))
+    }
+    run = null
+  }
+  bank.forcedChoice.forEach((question) => {
+    const answer = answers.forced[question.id]
+    const option = answer && question.options.find((o) => o.key === answer.optionKey)
+    if (!answer || !option || answer.confidence > lowConfidence) {
+      flushRun()
+      return
+    }
+    if (run && run.optionKey === option.key) {
+      run.axes.push(option.primary.axis)
+    } else {
+      flushRun()
+      run = { optionKey: option.key, axes: [option.primary.axis] }
+    }
+  })
+  flushRun()
+
+  const timedItems: TimedItem[] = []
+  bank.likert.forEach((q) => {
+    const answer = answers.likert[q.id]
+    if (answer) timedItems.push({ axis: q.axis, responseTimeMs: answer.responseTimeMs })
+  })
+  bank.forcedChoice.forEach((q) => {
+    const answer = answers.forced[q.id]
+    const option = answer && q.options.find((o) => o.key === answer.optionKey)
+    if (answer && option) timedItems.push({ axis: option.primary.axis, responseTimeMs: answer.responseTimeMs })
+  })
+  bank.scenario.forEach((q) => {
+    const answer = answers.scenario[q.id]
+    const option = answer && q.options.find((o) => o.key === answer.rankedOptions[0])
+    if (answer && option) timedItems.push({ axis: option.primary.axis, responseTimeMs: answer.responseTimeMs })
+  })
+
+  const speedingFlag = isSpeeding(timedItems)
+  if (speedingFlag) {
+    new Set(timedItems.map((item) => item.axis)).forEach((axis) => {
+      if (isSpeeding(timedItems.filter((item) => item.axis === axis))) {
+        flag(axis, 'speeding')
+      }
+    })
+  }
+
+  const flagged = (name: QualityFlagName) => Object.values(axes).some((list) => list.includes(name))
+
+  return {
+    consistencyFlag: flagged('consistency') ? 'low' : 'ok',
+    confidenceFlag: flagged('confidence') ? 'low' : 'ok',
+    speedingFlag,
+    axes,
+  }
+}
@@ -0,0 +1,126 @@
+import type { AptitudeDetails, QuestionBank } from './types'
+import type { CategoryScore } from './scoring'
+
+// docs/scoring_spec.md「2. 正規化フロー」5. のコサイン類似度による分野レコメンド
+
+export const PROFILE_AXES = ['interest', 'activity', 'values', 'career']
+const APTITUDE_LINK_WEIGHT = 0.5
+
+export interface FieldProfile {
+  field: string
+  vector: Record<string, number>
+}
+
+export interface AxisContribution {
+  axis: string
+  share: number
+}
+
+export interface FieldMatch {
+  field: string
+  similarity: number
+  axes: AxisContribution[]
+  drivers: string[]
+}
+
+type Loading = { axis: string; category: string; weight: number }[]
+
+function collectLoadings(bank: QuestionBank): Loading[] {
+  const loadings: Loading[] = []
+
+  bank.likert.forEach((q) => {
+    loadings.push([
+      { axis: q.axis, category: q.primaryCategory, weight: 1 },
+      ...(q.relatedCategories ?? []).map((rel) => ({ axis: rel.axis, category: rel.category, weight: rel.weight })),
+    ])
+  })
+
+  ;[...bank.forcedChoice, ...bank.scenario].forEach((q) => {
+    q.options.forEach((option) => {
+      const entries = [option.primary, ...(option.secondary ?? [])]
+      const top = Math.max(...entries.map((e) => e.score * (e.weight ?? 1.0)))
+      if (top <= 0) return
+      loadings.push(
+        entries.map((e) => ({ axis: e.axis, category: e.category, weight: (e.score * (e.weight ?? 1.0)) / top })),
+      )
+    })
+  })
+
+  return loadings
+}
+
+export function buildFieldProfiles(
+  bank: QuestionBank,
+  fields: string[],
+  aptitudeDetails?: AptitudeDetails | null,
+): FieldProfile[] {
+  const loadings = collectLoadings(bank)
+  const axisOf = new Map(loadings.flat().map((entry) => [entry.category, entry.axis]))
+
+  return fields.map((field) => {
+    const vector: Record<string, number> = {}
+    const add = (category: string, value: number) => {
+      vector[category] = (vector[category] ?? 0) + value
+    }
+
+    // 分野を含む設問・選択肢に同時に現れるカテゴリを、その分野の重みで加算する
+    loadings.forEach((loading) => {
+      const self = loading.find((entry) => entry.category === field)
+      if (!self) return
+      loading
+        .filter((entry) => PROFILE_AXES.includes(entry.axis))
+        .forEach((entry) => add(entry.category, entry.weight * self.weight))
+    })
+
+    // 学習者のベクトルと同じ軸にそろえるため、learning_style などの適性は加えない
+    Object.entries(aptitudeDetails ?? {}).forEach(([aptitude, detail]) => {
+      if (detail.related_fields.includes(field) && PROFILE_AXES.includes(axisOf.get(aptitude) ?? '')) {
+        add(aptitude, APTITUDE_LINK_WEIGHT)
+      }
+    })
+
+    return { field, vector }
+  })
+}
+
+export function rankFieldMatches(scores: CategoryScore[], profiles: FieldProfile[]): FieldMatch[] {
+  const student: Record<string, number> = {}
+  const axisOf: Record<string, string> = {}
+  scores
+    .filter((score) => PROFILE_AXES.includes(score.axis))
+    .forEach((score) => {
+      student[score.category] = score.normalized / 100
+      axisOf[score.category] = score.axis
+    })
+  const studentNorm = Math.sqrt(Object.values(student).reduce((acc, v) => acc + v * v, 0))
+  if (studentNorm === 0) return []
+
+  return profiles
+    .map((profile) => {
+      // 学習者にスコアのないカテゴリは 0 として扱い、ノルムはどちらも全成分で求める
+      const profileNorm = Math.sqrt(Object.values(profile.vector).reduce((acc, v) => acc + v * v, 0))
+      const terms = Object.entries(profile.vector)
+        .filter(([category]) => student[category] !== undefined)
+        .map(([category, weight]) => ({
+          category,
+          axis: axisOf[category],
+          value: (student[category] * weight) / (studentNorm * profileNorm || 1),
+        }))
+      const similarity = terms.reduce((acc, term) => acc + term.value, 0)
+
+      const byAxis = new Map<string, number>()
+      terms.forEach((term) => byAxis.set(term.axis, (byAxis.get(term.axis) ?? 0) + term.value))
+      const axes = Array.from(byAxis.entries())
+        .map(([axis, value]) => ({ axis, share: similarity > 0 ? value / similarity : 0 }))
+        .sort((a, b) => b.share - a.share)
+
+      const drivers = terms
+        .filter((term) => term.value > 0)
+        .sort((a, b) => b.value - a.value)
+        .slice(0, 3)
+        .map((term) => term.category)
+
+      return { field: profile.field, similarity: Number(similarity.toFixed(3)), axes, drivers }
+    })
+    .sort((a, b) => b.similarity - a.similarity)
+}
@@ -0,0 +1,305 @@
+import type {
+  AnswerSet,
+  BenchmarkNormSet,
+  ForcedChoiceOption,
+  QuestionBank,
+  ScenarioOption,
+  WeightedCategory,
+} from './types'
+
+// docs/scoring_spec.md に準拠した採点エンジン。
+// 軸・カテゴリごとに獲得点と想定最大点を積み上げ、0〜100 に正規化する。
+
+export const LIKERT_MAX_POINTS = 3
+export const SCENARIO_RANK_WEIGHTS = [1.0, 0.5, 0.25]
+export const APTITUDE_AXES = ['activity', 'learning_style']
+
+export const AXIS_LABELS: Record<string, string> = {
+  interest: '興味',
+  activity: '活動スタイル',
+  values: '価値観',
+  career: 'キャリア志向',
+  learning_style: '学びスタイル',
+  risk: 'リスク姿勢',
+}
+
+export interface CategoryScore {
+  axis: string
+  category: string
+  raw: number
+  max: number
+  normalized: number
+  hybrid: number
+  zScore?: number
+}
+
+export interface AxisScore {
+  axis: string
+  raw: number
+  max: number
+  normalized: number
+  categories: CategoryScore[]
+}
+
+export interface TagScore {
+  score: number
+  questions: string[]
+}
+
+// 設問1問がカテゴリ1つにもたらした得点（根拠の追跡や共起の計算に使う）
+export interface ItemContribution {
+  questionId: string
+  kind: 'likert' | 'forced' | 'scenario'
+  axis: string
+  category: string
+  // 基本点に掛けた重み（Likertは関連カテゴリの重み、二択は自信度、シナリオは最上位の順位重み）
+  weight: number
+  earned: number
+  max: number
+}
+
+export interface ScoreResult {
+  axes: Record<string, AxisScore>
+  categories: CategoryScore[]
+  tags: [string, TagScore][]
+  contributions: ItemContribution[]
+  raw: number
+  max: number
+  benchmark?: BenchmarkNormSet
+}
+
+interface Contribution {
+  axis: string
+  category: string
+  points: number
+}
+
+export function likertPoints(value: number, polarity: 'positive' | 'reverse'): number {
+  return polarity === 'reverse' ? (7 - value) * 0.5 : (value - 1) * 0.5
+}
+
+export function normalizeScore(raw: number, max: number): number {
+  if (max <= 0) return 0
+  return Number(((raw / max) * 100).toFixed(1))
+}
+
+function weightedPoints(entry: WeightedCategory): number {
+  return entry.score * (entry.weight ?? 1.0)
+}
+
+function optionContributions(option: ForcedChoiceOption | ScenarioOption): Contribution[] {
+  return [option.primary, ...(option.secondary ?? [])].map((entry) => ({
+    axis: entry.axis,
+    category: entry.category,
+    points: weightedPoints(entry),
+  }))
+}
+
+export function computeScores(bank: QuestionBank, answers: AnswerSet): ScoreResult {
+  const categories = new Map<string, { axis: string; raw: number; max: number }>()
+  const tags = new Map<string, TagScore>()
+  const contributions: ItemContribution[] = []
+  // 回答ごとに設問を線形に探さないよう、ID から設問を引く表を先に作る。
+  // 任意項目（required: false）は仕様書 §1 のとおり回答を記録するだけで、カテゴリの集計には含めない
+  const likertById = new Map(bank.likert.map((q) => [q.id, q]))
+  const forcedById = new Map(bank.forcedChoice.map((q) => [q.id, q]))
+  const scenarioById = new Map(bank.scenario.map((q) => [q.id, q]))
+
+  const add = (
+    source: Pick<ItemContribution, 'questionId' | 'kind' | 'weight'>,
+    axis: string,
+    category: string,
+    raw: number,
+    max: number,
+  ) => {
+    const entry = categories.get(category) ?? { axis, raw: 0, max: 0 }
+    entry.raw += raw
+    entry.max += max
+    categories.set(category, entry)
+    contributions.push({ ...source, axis, category, earned: raw, max })
+  }
+
+  const addTag = (name: string, value: number, questionId: string) => {
+    const entry = tags.get(name) ?? { score: 0, questions: [] }
+    entry.score += value
+    if (!entry.questions.includes(questionId)) {
+      entry.questions.push(questionId)
+    }
+    tags.set(name, entry)
+  }
+
+  Object.entries(answers.likert).forEach(([id, answer]) => {
+    const question = likertById.get(id)
+    if (!question?.required) return
+    const points = likertPoints(answer.value, question.polarity)
+    const source = { questionId: id, kind: 'likert' as const }
+    add({ ...source, weight: 1 }, question.axis, question.primaryCategory, points, LIKERT_MAX_POINTS)
+    question.relatedCategories?.forEach((rel) => {
+      add(
+        { ...source, weight: rel.weight },
+        rel.axis,
+        rel.category,
+        points * rel.weight,
+        LIKERT_MAX_POINTS * rel.weight,
+      )
+    })
+    question.tags?.forEach((tag) => addTag(tag.name, points * tag.weight, id))
+  })
+
+  Object.entries(answers.forced).forEach(([questionId, answer]) => {
+    if (answer.optionKey === 'SKIP') return
+    const question = forcedById.get(questionId)
+    if (!question?.required) return
+    const option = question.options.find((o) => o.key === answer.optionKey)
+    if (!option) return
+
+    // 想定最大点はどの選択肢を選んだ場合でも得られる最大値（自信度1.0）とする
+    const best = new Map<string, Contribution>()
+    question.options.forEach((candidate) => {
+      optionContributions(candidate).forEach((c) => {
+        const current = best.get(c.category)
+        if (!current || current.points < c.points) {
+          best.set(c.category, c)
+        }
+      })
+    })
+    const earned = new Map<string, number>()
+    optionContributions(option).forEach((c) => {
+      earned.set(c.category, (earned.get(c.category) ?? 0) + c.points * answer.confidence)
+    })
+    best.forEach((c) =>
+      add(
+        { questionId, kind: 'forced', weight: earned.has(c.category) ? answer.confidence : 0 },
+        c.axis,
+        c.category,
+        earned.get(c.category) ?? 0,
+        c.points,
+      ),
+    )
+
+    option.tags?.forEach((tag) =>
+      addTag(tag.name, weightedPoints(option.primary) * answer.confidence * tag.weight, questionId),
+    )
+  })
+
+  Object.entries(answers.scenario).forEach(([id, answer]) => {
+    const question = scenarioById.get(id)
+    if (!question?.required) return
+
+    // 最大点は各カテゴリにとって最も有利な並び順を仮定して求める
+    const perCategory = new Map<string, { axis: string; points: number[] }>()
+    question.options.forEach((option) => {
+      optionContributions(option).forEach((c) => {
+        const entry = perCategory.get(c.category) ?? { axis: c.axis, points: [] }
+        entry.points.push(c.points)
+        perCategory.set(c.category, entry)
+      })
+    })
+    const earned = new Map<string, number>()
+    const topRankWeight = new Map<string, number>()
+    answer.rankedOptions.forEach((optionKey, index) => {
+      const option = question.options.find((o) => o.key === optionKey)
+      const rankWeight = SCENARIO_RANK_WEIGHTS[index] ?? 0
+      if (!option || rankWeight === 0) return
+      optionContributions(option).forEach((c) => {
+        earned.set(c.category, (earned.get(c.category) ?? 0) + c.points * rankWeight)
+        if (!topRankWeight.has(c.category)) topRankWeight.set(c.category, rankWeight)
+      })
+      option.tags?.forEach((tag) =>
+        addTag(tag.name, weightedPoints(option.primary) * rankWeight * tag.weight, id),
+      )
+    })
+    perCategory.forEach((entry, category) => {
+      const max = [...entry.points]
+        .sort((a, b) => b - a)
+        .reduce((acc, points, index) => acc + points * (SCENARIO_RANK_WEIGHTS[index] ?? 0), 0)
+      add(
+        { questionId: id, kind: 'scenario', weight: topRankWeight.get(category) ?? 0 },
+        entry.axis,
+        category,
+        earned.get(category) ?? 0,
+        max,
+      )
+    })
+  })
+
+  const categoryScores: CategoryScore[] = Array.from(categories.entries())
+    .map(([category, entry]) => ({
+      axis: entry.axis,
+      category,
+      raw: entry.raw,
+      max: entry.max,
+      normalized: normalizeScore(entry.raw, entry.max),
+      hybrid: normalizeScore(entry.raw, entry.max),
+    }))
+    .sort((a, b) => b.normalized - a.normalized || b.raw - a.raw)
+
+  const axes: Record<string, AxisScore> = {}
+  categoryScores.forEach((score) => {
+    const axis = axes[score.axis] ?? { axis: score.axis, raw: 0, max: 0, normalized: 0, categories: [] }
+    axis.raw += score.raw
+    axis.max += score.max
+    axis.categories.push(score)
+    axes[score.axis] = axis
+  })
+  Object.values(axes).forEach((axis) => {
+    axis.normalized = normalizeScore(axis.raw, axis.max)
+  })
+
+  const raw = categoryScores.reduce((acc, score) => acc + score.raw, 0)
+  const max = categoryScores.reduce((acc, score) => acc + score.max, 0)
+
+  return {
+    axes,
+    categories: categoryScores,
+    tags: Array.from(tags.entries()).sort((a, b) => b[1].score - a[1].score),
+    contributions,
+    raw,
+    max,
+  }
+}
+
+// zスコアは ±3SD を 0〜100 に線形で写像する
+export function remapZScore(z: number): number {
+  return Math.min(100, Math.max(0, 50 + (z * 50) / 3))
+}
+
+export function selectBenchmark(
+  norms: BenchmarkNormSet[],
+  bankVersion: string | undefined,
+): BenchmarkNormSet | undefined {
+  return norms
+    .filter((set) => set.questionBankVersion === bankVersion)
+    .sort((a, b) => b.year - a.year)[0]
+}
+
+// ノルムが一部のカテゴリしか含まない場合は、ハイブリッドと正規化スコアが混ざって並ばないよう
+// 結果全体を正規化スコアのまま返す
+export function applyBenchmark(result: ScoreResult, benchmark: BenchmarkNormSet | undefined): ScoreResult {
+  if (!benchmark) return result
+  const covered = result.categories.every((score) => (benchmark.categories[score.category]?.sd ?? 0) > 0)
+  if (!covered) return result
+
+  const categories = result.categories
+    .map((score) => {
+      const norm = benchmark.categories[score.category]
+      const zScore = (score.normalized - norm.mean) / norm.sd
+      const hybrid = Number((0.5 * score.normalized + 0.5 * remapZScore(zScore)).toFixed(1))
+      return { ...score, zScore: Number(zScore.toFixed(2)), hybrid }
+    })
+    .sort((a, b) => b.hybrid - a.hybrid || b.raw - a.raw)
+
+  // 軸ごとの並びも全体の順位と揃える
+  const axes: Record<string, AxisScore> = {}
+  Object.entries(result.axes).forEach(([key, axis]) => {
+    axes[key] = { ...axis, categories: categories.filter((score) => score.axis === axis.axis) }
+  })
+
+  return { ...result, axes, categories, benchmark }
+}
+
+export function toRanking(scores: CategoryScore[], axes?: string[]): [string, number][] {
+  return scores
+    .filter((score) => !axes || axes.includes(score.axis))
+    .map((score) => [score.category, score.hybrid])
+}
@@ -0,0 +1,78 @@
+import { isRecord } from './utils'
+
+// 共有端末で複数の学習者が下書きを持てるよう、下書きの一覧（セッション）を管理する。
+// 下書きの本体は draft.ts がセッションごとのキーに保存する。
+// PIN は他の人の回答にうっかり切り替えないための簡易的な鍵で、ハッシュだけを保存する。
+// 下書きは暗号化せず localStorage に置くうえ、4〜8桁の PIN は総当たりですぐ割り出せるので、
+// 端末を操作できる人から回答を守るセキュリティ機能ではない。
+
+const SESSION_INDEX_KEY = 'major-diagnosis-sessions'
+
+export interface SessionSummary {
+  id: string
+  nickname: string
+  grade: string
+  updatedAt: string
+  pinHash?: string
+}
+
+function readIndex(): SessionSummary[] {
+  try {
+    const raw: unknown = JSON.parse(localStorage.getItem(SESSION_INDEX_KEY) ?? '[]')
+    if (!Array.isArray(raw)) return []
+    return raw.filter(
+      (entry): entry is SessionSummary =>
+        isRecord(entry) &&
+        typeof entry.id === 'string' &&
+        typeof entry.nickname === 'string' &&
+        typeof entry.grade === 'string' &&
+        typeof entry.updatedAt === 'string' &&
+        (entry.pinHash === undefined || typeof entry.pinHash === 'string'),
+    )
+  } catch (err) {
+    console.error('Failed to read session index', err)
+    return []
+  }
+}
+
+function writeIndex(sessions: SessionSummary[]) {
+  localStorage.setItem(SESSION_INDEX_KEY, JSON.stringify(sessions))
+}
+
+// 更新が新しい順
+export function listSessions(): SessionSummary[] {
+  return readIndex().sort((a, b) => (Date.parse(b.updatedAt) || 0) - (Date.parse(a.updatedAt) || 0))
+}
+
+export function upsertSession(id: string, changes: Partial<Omit<SessionSummary, 'id'>>) {
+  const sessions = readIndex()
+  const current = sessions.find((session) => session.id === id)
+  const next: SessionSummary = {
+    id,
+    nickname: '',
+    grade: '',
+    ...current,
+    updatedAt: new Date().toISOString(),
+    ...changes,
+  }
+  writeIndex([...sessions.filter((session) => session.id !== id), next])
+}
+
+export function removeSession(id: string) {
+  writeIndex(readIndex().filter((session) => session.id !== id))
+}
+
+// crypto.subtle は https か localhost でしか使えない
+export const PIN_SUPPORTED = typeof crypto !== 'undefined' && crypto.subtle !== undefined
+export const PIN_PATTERN = /^\d{4,8}$/
+
+export async function hashPin(id: string, pin: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${id}:${pin}`))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export async function verifyPin(session: SessionSummary, pin: string): Promise<boolean> {
+  if (!session.pinHash) return true
+  if (!PIN_SUPPORTED) return false
+  return (await hashPin(session.id, pin)) === session.pinHash
+}
@@ -0,0 +1,99 @@
+import type { AnswerSet, QuestionBank } from './types'
+import { isRecord } from './utils'
+
+// 結果共有リンク。プロフィールや回答時間は含めず、設問IDと回答だけを
+// deflate 圧縮して URL ハッシュ（#share=<形式>.<base64url>）に載せる。
+
+export const SHARE_HASH_PREFIX = '#share='
+export const SHARE_FORMAT_VERSION = 1
+
+interface SharePayloadV1 {
+  b?: string
+  l: Record<string, number>
+  f: Record<string, [string, number]>
+  s: Record<string, string[]>
+}
+
+export interface SharedResult {
+  bankVersion?: string
+  answers: AnswerSet
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const response = new Response(new Blob([bytes as BlobPart]).stream().pipeThrough(stream))
+  return new Uint8Array(await response.arrayBuffer())
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+export function isShareHash(hash: string): boolean {
+  return hash.startsWith(SHARE_HASH_PREFIX)
+}
+
+export async function encodeShareHash(bank: QuestionBank, answers: AnswerSet): Promise<string> {
+  const payload: SharePayloadV1 = {
+    b: bank.version,
+    l: Object.fromEntries(Object.entries(answers.likert).map(([id, answer]) => [id, answer.value])),
+    f: Object.fromEntries(
+      Object.entries(answers.forced).map(([id, answer]) => [id, [answer.optionKey, answer.confidence]]),
+    ),
+    s: Object.fromEntries(Object.entries(answers.scenario).map(([id, answer]) => [id, answer.rankedOptions])),
+  }
+  const compressed = await transform(
+    new TextEncoder().encode(JSON.stringify(payload)),
+    new CompressionStream('deflate-raw'),
+  )
+  return `${SHARE_HASH_PREFIX}${SHARE_FORMAT_VERSION}.${toBase64Url(compressed)}`
+}
+
+export async function decodeShareHash(hash: string): Promise<SharedResult> {
+  const body = hash.slice(SHARE_HASH_PREFIX.length)
+  const separator = body.indexOf('.')
+  if (separator < 0 || Number(body.slice(0, separator)) !== SHARE_FORMAT_VERSION) {
+    throw new Error('この共有リンクの形式には対応していません')
+  }
+
+  let payload: unknown
+  try {
+    const bytes = await transform(fromBase64Url(body.slice(separator + 1)), new DecompressionStream('deflate-raw'))
+    payload = JSON.parse(new TextDecoder().decode(bytes))
+  } catch {
+    throw new Error('共有リンクが壊れているため読み込めませんでした')
+  }
+
+  if (!isRecord(payload) || !isRecord(payload.l) || !isRecord(payload.f) || !isRecord(payload.s)) {
+    throw new Error('共有リンクの内容が不正です')
+  }
+  const answers: AnswerSet = { likert: {}, forced: {}, scenario: {} }
+  Object.entries(payload.l).forEach(([id, value]) => {
+    if (typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 7) {
+      answers.likert[id] = { value }
+    }
+  })
+  Object.entries(payload.f).forEach(([id, value]) => {
+    if (Array.isArray(value) && typeof value[0] === 'string' && typeof value[1] === 'number') {
+      answers.forced[id] = { optionKey: value[0], confidence: value[1] }
+    }
+  })
+  Object.entries(payload.s).forEach(([id, value]) => {
+    if (Array.isArray(value) && value.every((key) => typeof key === 'string')) {
+      answers.scenario[id] = { rankedOptions: value }
+    }
+  })
+
+  return {
+    bankVersion: typeof payload.b === 'string' ? payload.b : undefined,
+    answers,
+  }
+}
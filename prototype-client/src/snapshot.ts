@@ -0,0 +1,135 @@
+import type {
+  AnswerSet,
+  ForcedAnswerState,
+  LikertAnswerState,
+  ProfilePayload,
+  QuestionBank,
+  ScenarioAnswerState,
+} from './types'
+import { isRecord, migrateForcedAnswers } from './utils'
+
+// 「ローカルにエクスポート」で書き出すスナップショットの形式。
+// snapshotVersion がない旧形式のファイルも読み込めるようにする。
+
+export const SNAPSHOT_VERSION = 1
+
+export interface Snapshot {
+  snapshotVersion: number
+  questionBankVersion?: string
+  profile: ProfilePayload
+  likertAnswers: Record<string, LikertAnswerState>
+  forcedAnswers: Record<string, ForcedAnswerState>
+  scenarioAnswers: Record<string, ScenarioAnswerState>
+  axisAverage: Record<string, number>
+  notes: string
+  generatedAt: string
+}
+
+interface SnapshotSource {
+  bank: QuestionBank
+  profile: ProfilePayload
+  answers: AnswerSet
+  axisAverage: Record<string, number>
+  notes: string
+}
+
+export function buildSnapshot(source: SnapshotSource): Snapshot {
+  return {
+    snapshotVersion: SNAPSHOT_VERSION,
+    questionBankVersion: source.bank.version,
+    profile: source.profile,
+    likertAnswers: source.answers.likert,
+    forcedAnswers: source.answers.forced,
+    scenarioAnswers: source.answers.scenario,
+    axisAverage: source.axisAverage,
+    notes: source.notes,
+    generatedAt: new Date().toISOString(),
+  }
+}
+
+type Loose = Record<string, unknown>
+
+function isOptionalTime(value: unknown): boolean {
+  return value === undefined || (typeof value === 'number' && Number.isFinite(value) && value >= 0)
+}
+
+function checkEntries(
+  value: unknown,
+  label: string,
+  isValid: (entry: Loose) => boolean,
+  problems: string[],
+) {
+  if (!isRecord(value)) {
+    problems.push(`${label} がありません`)
+    return
+  }
+  Object.entries(value).forEach(([id, entry]) => {
+    if (!isRecord(entry) || !isValid(entry)) problems.push(`${label}.${id} の形式が不正です`)
+  })
+}
+
+// likertAnswers / forcedAnswers / scenarioAnswers の形式を検証する（下書きの読み込みでも使う）
+export function checkAnswerEntries(raw: Loose, problems: string[]) {
+  checkEntries(
+    raw.likertAnswers,
+    'likertAnswers',
+    (entry) =>
+      typeof entry.value === 'number' &&
+      Number.isInteger(entry.value) &&
+      entry.value >= 1 &&
+      entry.value <= 7 &&
+      isOptionalTime(entry.responseTimeMs),
+    problems,
+  )
+  checkEntries(
+    raw.forcedAnswers,
+    'forcedAnswers',
+    (entry) =>
+      typeof entry.optionKey === 'string' &&
+      typeof entry.confidence === 'number' &&
+      isOptionalTime(entry.responseTimeMs),
+    problems,
+  )
+  checkEntries(
+    raw.scenarioAnswers,
+    'scenarioAnswers',
+    (entry) =>
+      Array.isArray(entry.rankedOptions) &&
+      entry.rankedOptions.every((key) => typeof key === 'string') &&
+      isOptionalTime(entry.responseTimeMs),
+    problems,
+  )
+}
+
+// JSON.parse 済みの値を検証し、問題があれば内容を列挙した Error を投げる
+export function parseSnapshot(raw: unknown): Snapshot {
+  const problems: string[] = []
+  if (!isRecord(raw)) {
+    throw new Error('スナップショットの形式ではありません')
+  }
+  if (raw.snapshotVersion !== undefined && raw.snapshotVersion !== SNAPSHOT_VERSION) {
+    problems.push(`未対応の snapshotVersion です（${String(raw.snapshotVersion)}）`)
+  }
+  if (!isRecord(raw.profile)) problems.push('profile がありません')
+
+  checkAnswerEntries(raw, problems)
+  if (raw.generatedAt !== undefined && Number.isNaN(Date.parse(String(raw.generatedAt)))) {
+    problems.push('generatedAt が日時ではありません')
+  }
+
+  if (problems.length > 0) {
+    throw new Error(problems.join(' / '))
+  }
+
+  return {
+    snapshotVersion: SNAPSHOT_VERSION,
+    questionBankVersion: typeof raw.questionBankVersion === 'string' ? raw.questionBankVersion : undefined,
+    profile: raw.profile as ProfilePayload,
+    likertAnswers: raw.likertAnswers as Record<string, LikertAnswerState>,
+    forcedAnswers: migrateForcedAnswers(raw.forcedAnswers as Record<string, ForcedAnswerState>),
+    scenarioAnswers: raw.scenarioAnswers as Record<string, ScenarioAnswerState>,
+    axisAverage: isRecord(raw.axisAverage) ? (raw.axisAverage as Record<string, number>) : {},
+    notes: typeof raw.notes === 'string' ? raw.notes : '',
+    generatedAt: typeof raw.generatedAt === 'string' ? raw.generatedAt : '',
+  }
+}
@@ -0,0 +1,99 @@
+import type { AnswerSet, BenchmarkNormSet, QuestionBank } from './types'
+import { applyBenchmark, computeScores } from './scoring'
+
+// 結果の安定性分析。回答の一部を間引き、Likert回答を±1揺らした再採点を繰り返し、
+// 各カテゴリが上位に入る割合とスコアの幅を求める。乱数はシード固定で毎回同じ結果になる。
+
+export const STABILITY_ITERATIONS = 100
+export const STABILITY_KEEP_RATIO = 0.8
+export const STABILITY_JITTER_RATE = 0.3
+export const STABILITY_TOP_COUNT = 3
+export const STABLE_RATE = 0.8
+export const BORDERLINE_RATE = 0.3
+
+export type StabilityLevel = 'stable' | 'borderline' | 'unstable'
+
+export interface CategoryStability {
+  category: string
+  // 再採点のうち上位に入った割合（0〜1）
+  topRate: number
+  // 再採点スコアの10〜90パーセンタイル
+  low: number
+  high: number
+  level: StabilityLevel
+}
+
+function createRandom(seed: number): () => number {
+  // mulberry32
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function subsample<T>(entries: Record<string, T>, random: () => number, map: (value: T) => T = (v) => v) {
+  const kept = Object.entries(entries).filter(() => random() < STABILITY_KEEP_RATIO)
+  return Object.fromEntries(kept.map(([id, value]) => [id, map(value)]))
+}
+
+function percentile(sorted: number[], ratio: number): number {
+  if (sorted.length === 0) return 0
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(ratio * (sorted.length - 1))))
+  return sorted[index]
+}
+
+export function classifyStability(topRate: number): StabilityLevel {
+  if (topRate >= STABLE_RATE) return 'stable'
+  if (topRate >= BORDERLINE_RATE) return 'borderline'
+  return 'unstable'
+}
+
+export function analyzeStability(
+  bank: QuestionBank,
+  answers: AnswerSet,
+  benchmark: BenchmarkNormSet | undefined,
+  iterations = STABILITY_ITERATIONS,
+): CategoryStability[] {
+  const random = createRandom(20240401)
+  const topCounts = new Map<string, number>()
+  const samples = new Map<string, number[]>()
+
+  for (let i = 0; i < iterations; i++) {
+    const resampled: AnswerSet = {
+      likert: subsample(answers.likert, random, (answer) => {
+        if (random() >= STABILITY_JITTER_RATE) return answer
+        const shift = random() < 0.5 ? -1 : 1
+        return { ...answer, value: Math.min(7, Math.max(1, answer.value + shift)) }
+      }),
+      forced: subsample(answers.forced, random),
+      scenario: subsample(answers.scenario, random),
+    }
+    const result = applyBenchmark(computeScores(bank, resampled), benchmark)
+    result.categories.forEach((score, rank) => {
+      if (rank < STABILITY_TOP_COUNT) {
+        topCounts.set(score.category, (topCounts.get(score.category) ?? 0) + 1)
+      }
+      const list = samples.get(score.category) ?? []
+      list.push(score.hybrid)
+      samples.set(score.category, list)
+    })
+  }
+
+  return Array.from(samples.entries())
+    .map(([category, values]) => {
+      const sorted = [...values].sort((a, b) => a - b)
+      const topRate = (topCounts.get(category) ?? 0) / iterations
+      return {
+        category,
+        topRate,
+        low: Number(percentile(sorted, 0.1).toFixed(1)),
+        high: Number(percentile(sorted, 0.9).toFixed(1)),
+        level: classifyStability(topRate),
+      }
+    })
+    .sort((a, b) => b.topRate - a.topRate)
+}
@@ -0,0 +1,229 @@
+import type {
+  AnswerSet,
+  AxisAveragePayload,
+  ConsentState,
+  ProfilePayload,
+  QualityFlagsPayload,
+  QuestionBank,
+  ResponsePayload,
+  SubmissionReceipt,
+} from './types'
+import type { ScoreResult } from './scoring'
+import { createRandomId } from './utils'
+
+export const SUBMISSION_SCHEMA_VERSION = 4
+
+interface SubmissionSource {
+  bank: QuestionBank
+  profile: ProfilePayload
+  answers: AnswerSet
+  axisAverage: AxisAveragePayload
+  qualityFlags: QualityFlagsPayload | null
+  scoreResult: ScoreResult | null
+  notes: string
+  submissionId: string
+  deletionToken: string
+  consent: ConsentState
+}
+
+// 結果の連絡に同意していなければ、本人を特定できる項目（ニックネーム・連絡先・メモ）は送らない
+export function canSubmitWithConsent(consent: ConsentState | null): consent is ConsentState {
+  return consent !== null && (consent.research || consent.contact)
+}
+
+function anonymizeProfile(profile: ProfilePayload): ProfilePayload {
+  return { nickname: '', grade: profile.grade, track: profile.track }
+}
+
+export function createSubmissionId(): string {
+  return createRandomId()
+}
+
+// 送信データの削除に使うコード。受付番号とは別に作り、本人の端末と受付情報の表示にだけ残す
+export function createDeletionToken(): string {
+  return createRandomId()
+}
+
+export function createReceipt(
+  submissionId: string,
+  response: { fileName: string; storedAtUtc: string },
+  answersFingerprint: string,
+): SubmissionReceipt {
+  return { submissionId, fileName: response.fileName, submittedAt: response.storedAtUtc, answersFingerprint }
+}
+
+// 送信する内容の指紋（FNV-1a）。回答時間を除いた回答に加え、同意の内容と、連絡に同意していれば
+// プロフィール・メモも含める。送信後に送り直すべき変更があったかの判定に使う
+export function submissionFingerprint(
+  source: Pick<SubmissionSource, 'answers' | 'profile' | 'notes'> & { consent: ConsentState | null },
+): string {
+  const { answers, consent } = source
+  const profile = consent?.contact ? source.profile : anonymizeProfile(source.profile)
+  const canonical = JSON.stringify([
+    Object.entries(answers.likert)
+      .map(([id, answer]) => [id, answer.value])
+      .sort(),
+    Object.entries(answers.forced)
+      .map(([id, answer]) => [id, answer.optionKey, answer.confidence])
+      .sort(),
+    Object.entries(answers.scenario)
+      .map(([id, answer]) => [id, answer.rankedOptions.join(',')])
+      .sort(),
+    [consent?.research ?? false, consent?.contact ?? false],
+    [profile.nickname, profile.grade, profile.track, profile.email ?? ''],
+    consent?.contact ? source.notes : '',
+  ])
+  let hash = 0x811c9dc5
+  for (let i = 0; i < canonical.length; i++) {
+    hash ^= canonical.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+export function buildSubmission(source: SubmissionSource): ResponsePayload {
+  const { bank, answers, scoreResult, consent } = source
+  const profile = consent.contact ? source.profile : anonymizeProfile(source.profile)
+
+  return {
+    schemaVersion: SUBMISSION_SCHEMA_VERSION,
+    questionBankVersion: bank.version,
+    profile,
+    likert: Object.entries(answers.likert).map(([id, answer]) => ({
+      id,
+      value: answer.value,
+      responseTimeMs: answer.responseTimeMs,
+    })),
+    forcedChoice: Object.entries(answers.forced).map(([id, answer]) => ({
+      id,
+      optionKey: answer.optionKey,
+      confidence: answer.confidence,
+      responseTimeMs: answer.responseTimeMs,
+    })),
+    scenario: Object.entries(answers.scenario).map(([id, answer]) => ({
+      id,
+      rankedOptions: answer.rankedOptions,
+      responseTimeMs: answer.responseTimeMs,
+    })),
+    axisAverage: source.axisAverage,
+    qualityFlags: source.qualityFlags ?? undefined,
+    scores: scoreResult
+      ? {
+          categories: scoreResult.categories.map(({ axis, category, raw, max, normalized, hybrid }) => ({
+            axis,
+            category,
+            raw,
+            max,
+            normalized,
+            hybrid,
+          })),
+          raw: scoreResult.raw,
+          max: scoreResult.max,
+          benchmarkYear: scoreResult.benchmark?.year,
+        }
+      : undefined,
+    notes: consent.contact ? source.notes : undefined,
+    submissionId: source.submissionId,
+    deletionToken: source.deletionToken,
+    consent: { research: consent.research, contact: consent.contact },
+    respondentId: consent.research ? consent.respondentId : undefined,
+  }
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function checkResponseTime(value: number | undefined, label: string, problems: string[]) {
+  if (value !== undefined && (!isFiniteNumber(value) || value < 0)) {
+    problems.push(`${label}: 回答時間が不正です`)
+  }
+}
+
+export function validateSubmission(payload: ResponsePayload, bank: QuestionBank): string[] {
+  const problems: string[] = []
+
+  if (payload.schemaVersion !== SUBMISSION_SCHEMA_VERSION) {
+    problems.push(`スキーマバージョンが一致しません（${payload.schemaVersion}）`)
+  }
+  if (payload.questionBankVersion !== bank.version) {
+    problems.push(`設問バンクのバージョンが一致しません（${payload.questionBankVersion ?? '未設定'}）`)
+  }
+  if (!payload.consent.research && !payload.consent.contact) {
+    problems.push('送信への同意がありません')
+  }
+  if (payload.consent.contact) {
+    if (!payload.profile.nickname?.trim() || !payload.profile.grade?.trim()) {
+      problems.push('プロフィールのニックネームと学年は必須です')
+    }
+  } else if (payload.profile.nickname || payload.profile.email || payload.notes) {
+    problems.push('連絡に同意していないため、ニックネーム・連絡先・メモは送信できません')
+  }
+  if (payload.submissionId !== undefined && !payload.deletionToken) {
+    problems.push('受付番号には削除用コードが必要です')
+  }
+  if (payload.consent.research !== (payload.respondentId !== undefined)) {
+    problems.push('仮名IDは研究利用に同意した場合のみ送信します')
+  }
+
+  const seen = new Set<string>()
+  const checkDuplicate = (id: string) => {
+    if (seen.has(id)) problems.push(`${id}: 回答が重複しています`)
+    seen.add(id)
+  }
+
+  payload.likert.forEach((answer) => {
+    checkDuplicate(answer.id)
+    if (!bank.likert.some((q) => q.id === answer.id)) {
+      problems.push(`${answer.id}: 設問バンクに存在しません`)
+    }
+    if (!Number.isInteger(answer.value) || answer.value < 1 || answer.value > 7) {
+      problems.push(`${answer.id}: 回答値は1〜7の整数である必要があります`)
+    }
+    checkResponseTime(answer.responseTimeMs, answer.id, problems)
+  })
+
+  const multipliers = bank.forcedChoiceMetadata.confidenceLevels.map((level) => level.multiplier)
+  payload.forcedChoice.forEach((answer) => {
+    checkDuplicate(answer.id)
+    const question = bank.forcedChoice.find((q) => q.id === answer.id)
+    if (!question) {
+      problems.push(`${answer.id}: 設問バンクに存在しません`)
+      return
+    }
+    if (answer.optionKey === 'SKIP') {
+      if (answer.confidence !== 0) problems.push(`${answer.id}: スキップ時の自信度は0である必要があります`)
+    } else {
+      if (!question.options.some((o) => o.key === answer.optionKey)) {
+        problems.push(`${answer.id}: 選択肢 ${answer.optionKey} は存在しません`)
+      }
+      if (!multipliers.includes(answer.confidence)) {
+        problems.push(`${answer.id}: 自信度 ${answer.confidence} は定義されていません`)
+      }
+    }
+    checkResponseTime(answer.responseTimeMs, answer.id, problems)
+  })
+
+  payload.scenario.forEach((answer) => {
+    checkDuplicate(answer.id)
+    const question = bank.scenario.find((q) => q.id === answer.id)
+    if (!question) {
+      problems.push(`${answer.id}: 設問バンクに存在しません`)
+      return
+    }
+    const expected = question.options.map((o) => o.key).sort()
+    const actual = [...answer.rankedOptions].sort()
+    if (expected.length !== actual.length || expected.some((key, index) => key !== actual[index])) {
+      problems.push(`${answer.id}: 順位付けはすべての選択肢を1回ずつ含む必要があります`)
+    }
+    checkResponseTime(answer.responseTimeMs, answer.id, problems)
+  })
+
+  payload.scores?.categories.forEach((score) => {
+    if (![score.raw, score.max, score.normalized, score.hybrid].every(isFiniteNumber)) {
+      problems.push(`${score.category}: スコアが数値ではありません`)
+    }
+  })
+
+  return problems
+}
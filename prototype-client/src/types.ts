@@ -38,6 +38,18 @@ export interface ForcedChoiceQuestion {
   options: ForcedChoiceOption[]
 }
 
+export interface ConfidenceLevel {
+  key: string
+  label: string
+  multiplier: number
+}
+
+export interface ForcedChoiceMetadata {
+  version?: string
+  defaultPrompt?: string
+  confidenceLevels: ConfidenceLevel[]
+}
+
 export interface ScenarioOption {
   key: string
   label: string
@@ -84,21 +96,113 @@ export interface AxisAveragePayload {
   [axis: string]: number
 }
 
+export type QualityFlagName = 'consistency' | 'confidence' | 'speeding'
+
+export interface QualityFlagsPayload {
+  consistencyFlag: 'ok' | 'low'
+  confidenceFlag: 'ok' | 'low'
+  speedingFlag: boolean
+  axes: Record<string, QualityFlagName[]>
+}
+
+export interface CategoryScorePayload {
+  axis: string
+  category: string
+  raw: number
+  max: number
+  normalized: number
+  hybrid: number
+}
+
+export interface ScoresPayload {
+  categories: CategoryScorePayload[]
+  raw: number
+  max: number
+  benchmarkYear?: number
+}
+
 export interface ResponsePayload {
+  schemaVersion: number
+  questionBankVersion?: string
   profile: ProfilePayload
   likert: LikertAnswerPayload[]
   forcedChoice: ForcedChoiceAnswerPayload[]
   scenario: ScenarioAnswerPayload[]
   axisAverage?: AxisAveragePayload
+  qualityFlags?: QualityFlagsPayload
+  scores?: ScoresPayload
   notes?: string
+  // 同じ診断の再送をサーバー側で1件にまとめるための識別子
+  submissionId?: string
+  // submissionId と一緒に送る削除用コード。サーバーはハッシュだけを保存し、上書きと削除のときに照合する
+  deletionToken?: string
+  consent: ConsentPayload
+  // 研究利用に同意した場合だけ送る仮名ID。回答履歴をニックネームなどの代わりにこのIDでまとめる
+  respondentId?: string
+}
+
+export interface ConsentPayload {
+  research: boolean
+  contact: boolean
+}
+
+export interface ConsentState extends ConsentPayload {
+  respondentId: string
+  decidedAt: string
+}
+
+export interface SubmissionReceipt {
+  submissionId: string
+  fileName: string
+  submittedAt: string
+  // 送信した内容（回答・同意・連絡先など）の指紋。現在の内容と比べて再送が必要か判断する
+  answersFingerprint: string
+}
+
+export interface LikertAnswerState {
+  value: number
+  responseTimeMs?: number
+}
+
+export interface ForcedAnswerState {
+  optionKey: string
+  confidence: number
+  responseTimeMs?: number
+}
+
+export interface ScenarioAnswerState {
+  rankedOptions: string[]
+  responseTimeMs?: number
+}
+
+export type StepId = 'profile' | 'consent' | 'likert' | 'forced-choice' | 'scenario' | 'review' | 'result'
+
+export interface AnswerSet {
+  likert: Record<string, LikertAnswerState>
+  forced: Record<string, ForcedAnswerState>
+  scenario: Record<string, ScenarioAnswerState>
 }
 
 export interface QuestionBank {
+  version?: string
   likert: LikertQuestion[]
   forcedChoice: ForcedChoiceQuestion[]
+  forcedChoiceMetadata: ForcedChoiceMetadata
   scenario: ScenarioQuestion[]
 }
 
+export interface CategoryNorm {
+  mean: number
+  sd: number
+}
+
+export interface BenchmarkNormSet {
+  year: number
+  questionBankVersion: string
+  sampleSize?: number
+  categories: Record<string, CategoryNorm>
+}
+
 export type Tag = { name: string; weight: number };
 // Cache-busting comment
 
@@ -117,6 +221,12 @@ export type AptitudeDetails = Record<
   }
 >
 
+export interface CategoryMapEntry {
+  axis: string
+  category: string
+  description: string
+}
+
 export interface RecommendationItem {
   aptitude: string
   majors: string[]
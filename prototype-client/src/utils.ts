@@ -1,4 +1,9 @@
-import type { LikertQuestion, RelatedCategory } from './types'
+import type { ConfidenceLevel, ForcedAnswerState, LikertQuestion } from './types'
+
+// JSON から読み込んだ値がオブジェクト（配列や null でない）かを判定する
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
 
 export interface AxisStats {
   sum: number
@@ -36,25 +41,6 @@ export function computeAxisAverage(stats: Map<string, AxisStats>): Record<string
   return result
 }
 
-export function computeInformationGain(
-  question: LikertQuestion,
-  stats: Map<string, AxisStats>,
-): number {
-  const axisState = stats.get(question.axis)
-  if (!axisState || axisState.count === 0) {
-    return 1.0
-  }
-
-  const average = axisState.sum / axisState.count
-  const midPoint = 4
-  const gap = Math.abs(midPoint - average)
-  const relatedWeight = (question.relatedCategories ?? []).reduce(
-    (acc: number, current: RelatedCategory) => acc + current.weight,
-    0,
-  )
-  return gap * (1 + relatedWeight)
-}
-
 export function recomputeAxisStats(
   questions: LikertQuestion[],
   answers: Record<string, { value: number }>,
@@ -69,22 +55,57 @@ export function recomputeAxisStats(
   return stats
 }
 
-export function pickNextLikertQuestion(
-  questions: LikertQuestion[],
-  answers: Record<string, { value: number }>,
-  stats: Map<string, AxisStats>,
-  requiredOnly = false,
-): LikertQuestion | undefined {
-  const answered = new Set(Object.keys(answers))
-  const candidates = questions.filter((q) => !answered.has(q.id) && (!requiredOnly || q.required))
-  if (candidates.length === 0 && requiredOnly) {
-    return pickNextLikertQuestion(questions, answers, stats, false)
+export function defaultConfidenceLevel(levels: ConfidenceLevel[]): ConfidenceLevel {
+  return levels[Math.floor(levels.length / 2)]
+}
+
+export function snapConfidence(value: number, levels: ConfidenceLevel[]): number {
+  return levels.reduce((best, level) =>
+    Math.abs(level.multiplier - value) < Math.abs(best.multiplier - value) ? level : best,
+  ).multiplier
+}
+
+// 旧形式（`${questionId}|${optionKey}` キー）の下書きを設問IDキーに移行する。
+// 旧形式には回答日時がないため、複数の選択肢が残っている場合は保存されたオブジェクトで後ろにあるキーを採用する
+// （初めて選んだ順に並ぶので、同じ選択肢を選び直した場合は必ずしも最新の回答にならない）。
+export function migrateForcedAnswers(
+  answers: Record<string, ForcedAnswerState>,
+): Record<string, ForcedAnswerState> {
+  const migrated: Record<string, ForcedAnswerState> = {}
+  Object.entries(answers).forEach(([key, answer]) => {
+    const [questionId] = key.split('|')
+    migrated[questionId] = answer
+  })
+  return migrated
+}
+
+// 端末内で使う識別子（セッションや送信待ちの管理用）
+export function createLocalId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+// 推測されては困る識別子（受付番号など）。crypto.getRandomValues で 128 ビットの乱数から作る
+export function createRandomId(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// 描画を妨げないよう、ブラウザが空いたときに処理を実行する。戻り値で取り消せる。
+// requestIdleCallback のない環境（Safari）では setTimeout で代用する
+export function runWhenIdle(task: () => void): () => void {
+  if (typeof requestIdleCallback === 'function') {
+    const handle = requestIdleCallback(task, { timeout: 1000 })
+    return () => cancelIdleCallback(handle)
   }
+  const handle = setTimeout(task, 0)
+  return () => clearTimeout(handle)
+}
 
-  return candidates
-    .map((question) => ({
-      question,
-      info: computeInformationGain(question, stats),
-    }))
-    .sort((a, b) => b.info - a.info)[0]?.question
+export function downloadFile(content: string, filename: string, type: string) {
+  const blob = new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const anchor = document.createElement('a')
+  anchor.href = url
+  anchor.download = filename
+  anchor.click()
+  URL.revokeObjectURL(url)
 }
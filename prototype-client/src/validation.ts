@@ -0,0 +1,198 @@
+import type { AptitudeDetails, CategoryMapEntry, QuestionBank } from './types'
+import { APTITUDE_AXES } from './scoring'
+import { isRecord } from './utils'
+
+// 取得した設問バンクと参照データの実行時検証。
+// error は診断を続けると結果が壊れるもの、warning は表示の欠落などにとどまるもの。
+
+export interface ValidationIssue {
+  severity: 'error' | 'warning'
+  source: string
+  message: string
+}
+
+export interface ReferenceData {
+  bank: QuestionBank
+  careerMap: Record<string, string[]>
+  categoryDetails: Record<string, { description: string; fitReason: string; courses: string[] }>
+  aptitudeDetails: AptitudeDetails
+  categoryMap: CategoryMapEntry[]
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+export function validateReferenceData(data: ReferenceData): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  const error = (source: string, message: string) => issues.push({ severity: 'error', source, message })
+  const warning = (source: string, message: string) => issues.push({ severity: 'warning', source, message })
+
+  const axes = new Set(data.categoryMap.map((entry) => entry.axis))
+  const categoryAxis = new Map(data.categoryMap.map((entry) => [entry.category, entry.axis]))
+  if (data.categoryMap.length === 0) {
+    warning('category_map.csv', 'カテゴリ定義を取得できなかったため、カテゴリ名の照合を省略しました')
+  }
+
+  const usedCategories = new Set<string>()
+  const checkCategory = (source: string, axis: unknown, category: unknown) => {
+    if (!isString(axis) || !isString(category)) {
+      error(source, 'axis と category は必須です')
+      return
+    }
+    usedCategories.add(category)
+    if (data.categoryMap.length === 0) return
+    if (!axes.has(axis)) {
+      error(source, `未定義の軸です: ${axis}`)
+    } else if (categoryAxis.get(category) !== axis) {
+      error(
+        source,
+        categoryAxis.has(category)
+          ? `カテゴリ ${category} は軸 ${categoryAxis.get(category)} に属します（${axis} と記載）`
+          : `未定義のカテゴリです: ${axis} / ${category}`,
+      )
+    }
+  }
+
+  const checkTags = (source: string, tags: unknown) => {
+    if (tags === undefined) return
+    if (!Array.isArray(tags) || tags.some((tag) => !isRecord(tag) || !isString(tag.name) || !isNumber(tag.weight))) {
+      warning(source, 'tags は { name, weight } の配列である必要があります')
+    }
+  }
+
+  const seenIds = new Set<string>()
+  const checkId = (source: string, id: unknown): id is string => {
+    if (!isString(id)) {
+      error(source, 'id がありません')
+      return false
+    }
+    if (seenIds.has(id)) {
+      error(id, 'id が重複しています')
+    }
+    seenIds.add(id)
+    return true
+  }
+
+  data.bank.likert.forEach((raw: unknown, index) => {
+    const item = isRecord(raw) ? raw : {}
+    const source = isString(item.id) ? item.id : `likert[${index}]`
+    if (!checkId(source, item.id)) return
+    if (!isString(item.prompt)) error(source, 'prompt がありません')
+    if (item.polarity !== 'positive' && item.polarity !== 'reverse') {
+      error(source, `polarity は positive / reverse のいずれかである必要があります（${String(item.polarity)}）`)
+    }
+    if (typeof item.required !== 'boolean') error(source, 'required は真偽値である必要があります')
+    checkCategory(source, item.axis, item.primaryCategory)
+    if (item.relatedCategories !== undefined) {
+      if (!Array.isArray(item.relatedCategories)) {
+        error(source, 'relatedCategories は配列である必要があります')
+      } else {
+        item.relatedCategories.forEach((rel: unknown) => {
+          const entry = isRecord(rel) ? rel : {}
+          checkCategory(source, entry.axis, entry.category)
+          if (!isNumber(entry.weight)) error(source, 'relatedCategories の weight が数値ではありません')
+        })
+      }
+    }
+    checkTags(source, item.tags)
+  })
+
+  const checkOptions = (source: string, options: unknown) => {
+    if (!Array.isArray(options) || options.length < 2) {
+      error(source, 'options は2件以上必要です')
+      return
+    }
+    const keys = new Set<string>()
+    options.forEach((raw: unknown, index) => {
+      const option = isRecord(raw) ? raw : {}
+      const optionSource = `${source} / ${isString(option.key) ? option.key : `options[${index}]`}`
+      if (!isString(option.key)) {
+        error(optionSource, 'key がありません')
+      } else if (keys.has(option.key)) {
+        error(optionSource, '選択肢の key が重複しています')
+      } else {
+        keys.add(option.key)
+      }
+      if (!isString(option.label)) error(optionSource, 'label がありません')
+      const entries = [option.primary, ...(Array.isArray(option.secondary) ? option.secondary : [])]
+      if (option.secondary !== undefined && !Array.isArray(option.secondary)) {
+        error(optionSource, 'secondary は配列である必要があります')
+      }
+      entries.forEach((rawEntry: unknown) => {
+        const entry = isRecord(rawEntry) ? rawEntry : {}
+        checkCategory(optionSource, entry.axis, entry.category)
+        if (!isNumber(entry.score)) error(optionSource, 'score が数値ではありません')
+        if (entry.weight !== undefined && !isNumber(entry.weight)) error(optionSource, 'weight が数値ではありません')
+      })
+      checkTags(optionSource, option.tags)
+    })
+  }
+
+  data.bank.forcedChoice.forEach((raw: unknown, index) => {
+    const item = isRecord(raw) ? raw : {}
+    const source = isString(item.id) ? item.id : `forcedChoice[${index}]`
+    if (!checkId(source, item.id)) return
+    if (!isString(item.prompt)) error(source, 'prompt がありません')
+    checkOptions(source, item.options)
+  })
+
+  data.bank.scenario.forEach((raw: unknown, index) => {
+    const item = isRecord(raw) ? raw : {}
+    const source = isString(item.id) ? item.id : `scenario[${index}]`
+    if (!checkId(source, item.id)) return
+    if (!isString(item.title) || !isString(item.scenario)) error(source, 'title と scenario は必須です')
+    checkOptions(source, item.options)
+  })
+
+  const levels: unknown[] = data.bank.forcedChoiceMetadata.confidenceLevels
+  if (levels.some((level) => !isRecord(level) || !isString(level.label) || !isNumber(level.multiplier))) {
+    error('questions_forced_choice.json', 'confidenceLevels は { key, label, multiplier } の配列である必要があります')
+  }
+  if (!data.bank.version) {
+    warning('questions_likert.json', 'metadata.version がないため、ベンチマークや提出データとの照合ができません')
+  }
+
+  // 資質（活動スタイル・学びスタイル）の説明が揃っているか
+  data.categoryMap
+    .filter((entry) => APTITUDE_AXES.includes(entry.axis) && usedCategories.has(entry.category))
+    .forEach((entry) => {
+      if (!data.aptitudeDetails[entry.category]) {
+        warning('aptitude_details.json', `資質 ${entry.category} の説明がありません`)
+      }
+    })
+
+  const interestCategories = new Set(
+    data.categoryMap.filter((entry) => entry.axis === 'interest').map((entry) => entry.category),
+  )
+  const checkFieldKeys = (source: string, keys: string[]) => {
+    if (interestCategories.size === 0) return
+    keys
+      .filter((key) => !interestCategories.has(key))
+      .forEach((key) => warning(source, `興味カテゴリに存在しないキーです: ${key}`))
+    interestCategories.forEach((category) => {
+      if (!keys.includes(category)) warning(source, `${category} の項目がありません`)
+    })
+  }
+  checkFieldKeys('category_details.json', Object.keys(data.categoryDetails))
+  checkFieldKeys('career_map.json', Object.keys(data.careerMap))
+
+  Object.entries(data.aptitudeDetails).forEach(([aptitude, detail]) => {
+    if (!isRecord(detail) || !Array.isArray(detail.related_fields)) {
+      error('aptitude_details.json', `${aptitude} の related_fields がありません`)
+      return
+    }
+    if (data.categoryMap.length === 0) return
+    detail.related_fields
+      .filter((field: unknown) => !isString(field) || !categoryAxis.has(field))
+      .forEach((field: unknown) =>
+        warning('aptitude_details.json', `${aptitude} の関連領域 ${String(field)} はカテゴリ定義にありません`),
+      )
+  })
+
+  return issues
+}
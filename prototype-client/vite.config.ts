@@ -4,6 +4,10 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  build: {
+    // public/sw.js がビルド済みの JS・CSS を事前キャッシュするために読む
+    manifest: 'asset-manifest.json',
+  },
   server: {
     proxy: {
       '/api': {
@@ -1,4 +1,6 @@
 using System.Linq;
+using System.Security.Cryptography;
+using System.Text;
 using System.Text.Json;
 using System.Text.Json.Nodes;
 
@@ -17,6 +19,7 @@ var app = builder.Build();
 app.UseCors();
 
 var dataRoot = Path.GetFullPath(Path.Combine(AppContext.BaseDirectory, "..", "..", "..", "..", "data"));
+var docsRoot = Path.GetFullPath(Path.Combine(AppContext.BaseDirectory, "..", "..", "..", "..", "docs"));
 var storageRoot = Path.GetFullPath(Path.Combine(AppContext.BaseDirectory, "..", "..", "storage"));
 Directory.CreateDirectory(storageRoot);
 
@@ -62,12 +65,46 @@ app.MapGet("/api/categories/details", () =>
     return Results.Json(json);
 });
 
+app.MapGet("/api/categories/map", async () =>
+{
+    var path = Path.Combine(docsRoot, "category_map.csv");
+    if (!File.Exists(path))
+    {
+        return Results.NotFound();
+    }
+
+    var lines = await File.ReadAllLinesAsync(path);
+    var items = lines
+        .Skip(1)
+        .Where(line => !string.IsNullOrWhiteSpace(line))
+        .Select(line => line.Split(',', 3))
+        .Where(columns => columns.Length >= 2)
+        .Select(columns => new CategoryMapEntry(
+            columns[0].Trim(),
+            columns[1].Trim(),
+            columns.Length > 2 ? columns[2].Trim() : string.Empty))
+        .ToArray();
+
+    return Results.Ok(new { items });
+});
+
 app.MapGet("/api/aptitudes/details", () =>
 {
     var json = LoadJson("aptitude_details.json");
     return Results.Json(json);
 });
 
+app.MapGet("/api/benchmarks/norms", () =>
+{
+    if (!File.Exists(Path.Combine(dataRoot, "benchmark_norms.json")))
+    {
+        return Results.NotFound();
+    }
+
+    var json = LoadJson("benchmark_norms.json");
+    return Results.Json(json);
+});
+
 app.MapPost("/api/recommendations", (RecommendationRequest request) =>
 {
     var json = LoadJson("aptitude_recommendations.json");
@@ -102,15 +139,116 @@ app.MapPost("/api/recommendations", (RecommendationRequest request) =>
 
 app.MapPost("/api/responses", async (ResponseSubmission submission) =>
 {
-    var fileName = $"response-{DateTime.UtcNow:yyyyMMdd-HHmmssfff}.json";
+    if (submission.SchemaVersion != SubmissionSchema.Version)
+    {
+        return Results.BadRequest(new { error = $"Unsupported schema version: {submission.SchemaVersion}" });
+    }
+
+    if (submission.Scenario.Any(answer => answer.RankedOptions is not { Count: > 0 }))
+    {
+        return Results.BadRequest(new { error = "Scenario answers must include rankedOptions." });
+    }
+
+    if (submission.Consent is not { } consent || (!consent.Research && !consent.Contact))
+    {
+        return Results.BadRequest(new { error = "Consent for research use or result contact is required." });
+    }
+
+    // 連絡に同意していない送信からは本人を特定できる項目を除き、研究利用に同意していなければ仮名IDも保存しない
+    if (!consent.Contact)
+    {
+        submission = submission with
+        {
+            Profile = submission.Profile with { Nickname = string.Empty, Email = null },
+            Notes = null
+        };
+    }
+
+    if (!consent.Research)
+    {
+        submission = submission with { RespondentId = null };
+    }
+
     var path = Path.Combine(storageRoot, "responses");
     Directory.CreateDirectory(path);
+    var jsonOptions = new JsonSerializerOptions(JsonSerializerDefaults.Web) { WriteIndented = true };
+
+    // submissionId 付きの送信は1件のファイルにまとめ、同じ内容の再送は保存済みの受付情報を返す。
+    // 削除用トークンはハッシュだけを保存し、上書きと削除は同じトークンを持つ送信元にだけ許可する
+    if (submission.SubmissionId is { } submissionId)
+    {
+        if (!SubmissionSchema.IsValidSubmissionId(submissionId))
+        {
+            return Results.BadRequest(new { error = "Invalid submissionId." });
+        }
+
+        if (submission.DeletionToken is not { } deletionToken || !SubmissionSchema.IsValidDeletionToken(deletionToken))
+        {
+            return Results.BadRequest(new { error = "A deletionToken is required with submissionId." });
+        }
+
+        var tokenHash = SubmissionSchema.HashDeletionToken(deletionToken);
+        submission = submission with { DeletionToken = null };
+
+        var receiptName = $"response-{submissionId}.json";
+        var receiptPath = Path.Combine(path, receiptName);
+        if (File.Exists(receiptPath))
+        {
+            var existing = JsonSerializer.Deserialize<StoredResponse>(await File.ReadAllTextAsync(receiptPath), jsonOptions);
+            if (existing is null || !SubmissionSchema.MatchesDeletionToken(existing.DeletionTokenHash, tokenHash))
+            {
+                return Results.Json(new { error = "This submissionId belongs to another submission." }, statusCode: StatusCodes.Status403Forbidden);
+            }
+
+            if (JsonSerializer.Serialize(existing.Payload, jsonOptions) == JsonSerializer.Serialize(submission, jsonOptions))
+            {
+                return Results.Ok(new { fileName = receiptName, submissionId, storedAtUtc = existing.StoredAtUtc, duplicate = true });
+            }
+        }
 
-    var payload = new StoredResponse(submission, DateTime.UtcNow);
-    var json = JsonSerializer.Serialize(payload, new JsonSerializerOptions(JsonSerializerDefaults.Web) { WriteIndented = true });
+        var updated = new StoredResponse(submission, DateTime.UtcNow, tokenHash);
+        await File.WriteAllTextAsync(receiptPath, JsonSerializer.Serialize(updated, jsonOptions));
+        return Results.Created($"/api/responses/{receiptName}", new { fileName = receiptName, submissionId, storedAtUtc = updated.StoredAtUtc, duplicate = false });
+    }
+
+    var fileName = $"response-{DateTime.UtcNow:yyyyMMdd-HHmmssfff}.json";
+    var payload = new StoredResponse(submission with { DeletionToken = null }, DateTime.UtcNow, null);
+    var json = JsonSerializer.Serialize(payload, jsonOptions);
     await File.WriteAllTextAsync(Path.Combine(path, fileName), json);
 
-    return Results.Created($"/api/responses/{fileName}", new { fileName });
+    return Results.Created($"/api/responses/{fileName}", new { fileName, storedAtUtc = payload.StoredAtUtc });
+});
+
+// 削除には送信時に作った削除用トークンを X-Deletion-Token ヘッダーで添える
+app.MapDelete("/api/responses/{submissionId}", async (string submissionId, HttpRequest request) =>
+{
+    if (!SubmissionSchema.IsValidSubmissionId(submissionId))
+    {
+        return Results.BadRequest(new { error = "Invalid submissionId." });
+    }
+
+    var deletionToken = request.Headers["X-Deletion-Token"].ToString();
+    if (!SubmissionSchema.IsValidDeletionToken(deletionToken))
+    {
+        return Results.BadRequest(new { error = "X-Deletion-Token header is required." });
+    }
+
+    var filePath = Path.Combine(storageRoot, "responses", $"response-{submissionId}.json");
+    if (!File.Exists(filePath))
+    {
+        return Results.NotFound();
+    }
+
+    var jsonOptions = new JsonSerializerOptions(JsonSerializerDefaults.Web);
+    var existing = JsonSerializer.Deserialize<StoredResponse>(await File.ReadAllTextAsync(filePath), jsonOptions);
+    if (existing is null ||
+        !SubmissionSchema.MatchesDeletionToken(existing.DeletionTokenHash, SubmissionSchema.HashDeletionToken(deletionToken)))
+    {
+        return Results.Json(new { error = "The deletion token does not match." }, statusCode: StatusCodes.Status403Forbidden);
+    }
+
+    File.Delete(filePath);
+    return Results.NoContent();
 });
 
 app.MapGet("/api/status", () =>
@@ -148,16 +286,56 @@ static string[] ReadStringArray(JsonObject source, string propertyName)
 
 internal record LikertAnswer(string Id, int Value, double? ResponseTimeMs);
 internal record ForcedChoiceAnswer(string Id, string OptionKey, double Confidence, double? ResponseTimeMs);
-internal record ScenarioAnswer(string Id, string OptionKey, double? ResponseTimeMs);
-internal record ProfileSubmission(string Nickname, string Grade, string Track, string Email);
+internal record ScenarioAnswer(string Id, IReadOnlyList<string> RankedOptions, double? ResponseTimeMs);
+internal record ProfileSubmission(string Nickname, string Grade, string Track, string? Email);
+internal record ConsentSubmission(bool Research, bool Contact);
 internal record ResponseSubmission(
+    int SchemaVersion,
+    string? QuestionBankVersion,
     ProfileSubmission Profile,
     IReadOnlyList<LikertAnswer> Likert,
     IReadOnlyList<ForcedChoiceAnswer> ForcedChoice,
     IReadOnlyList<ScenarioAnswer> Scenario,
     IReadOnlyDictionary<string, double>? AxisAverage,
-    string? Notes);
+    QualityFlagsSubmission? QualityFlags,
+    ScoresSubmission? Scores,
+    string? Notes,
+    string? SubmissionId,
+    string? DeletionToken,
+    ConsentSubmission? Consent,
+    string? RespondentId);
+
+internal record QualityFlagsSubmission(
+    string ConsistencyFlag,
+    string ConfidenceFlag,
+    bool SpeedingFlag,
+    IReadOnlyDictionary<string, IReadOnlyList<string>>? Axes);
+
+internal record CategoryScoreSubmission(string Axis, string Category, double Raw, double Max, double Normalized, double Hybrid);
+internal record ScoresSubmission(IReadOnlyList<CategoryScoreSubmission> Categories, double Raw, double Max, int? BenchmarkYear);
+
+internal static class SubmissionSchema
+{
+    public const int Version = 4;
+
+    // ファイル名に使うため英数字とハイフンのみ許可する
+    public static bool IsValidSubmissionId(string value) =>
+        value.Length is > 0 and <= 64 && value.All(c => char.IsAsciiLetterOrDigit(c) || c == '-');
+
+    // クライアントが crypto.getRandomValues で作る 128 ビット以上の16進文字列
+    public static bool IsValidDeletionToken(string value) =>
+        value.Length is >= 32 and <= 128 && value.All(char.IsAsciiHexDigit);
+
+    public static string HashDeletionToken(string token) =>
+        Convert.ToHexString(SHA256.HashData(Encoding.UTF8.GetBytes(token.ToLowerInvariant())));
+
+    // トークン導入前に保存した送信（ハッシュなし）は上書きも削除もできない
+    public static bool MatchesDeletionToken(string? storedHash, string tokenHash) =>
+        storedHash is not null &&
+        CryptographicOperations.FixedTimeEquals(Encoding.ASCII.GetBytes(storedHash), Encoding.ASCII.GetBytes(tokenHash));
+}
 
-internal record StoredResponse(ResponseSubmission Payload, DateTime StoredAtUtc);
+internal record StoredResponse(ResponseSubmission Payload, DateTime StoredAtUtc, string? DeletionTokenHash);
+internal record CategoryMapEntry(string Axis, string Category, string Description);
 internal record RecommendationRequest(IReadOnlyList<string> Aptitudes);
 internal record RecommendationResult(string Aptitude, IReadOnlyList<string> Majors, IReadOnlyList<string> Certifications, IReadOnlyList<string> Activities);